@@ -45,7 +45,7 @@ export function pageGroup(mediaGroup: MediaGroup) {
 
 	const hideSeason = displaySubgroup ? "" : "data-hide-season";
 
-	const poster = (mediaGroup.images[0] || mediaGroup.imagesFromFirstFile[0])?.target.toString() || "folder.jpg"; // TODO
+	const poster = (mediaGroup.images[0] || mediaGroup.imagesFromFirstFile[0])?.target?.toString() || "folder.jpg"; // TODO
 
 
 	const media = mediaGroup.files.map(file => {
@@ -1,7 +1,7 @@
 import { MediaGroup, MediaPrimary } from "../../media.ts";
 import { divideTitle, fileDisplayNumber, fileDisplaySubgroupNumber } from "./page-group.ts";
 
-type F = { url: URL, mimetype: string | undefined };
+type F = { url: URL | undefined, mimetype: string | undefined };
 
 // Also handles audio
 export async function pageVideo(mediaGroup: MediaGroup, file: MediaPrimary, subtitles: (F & { language: string })[]) {
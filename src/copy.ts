@@ -0,0 +1,200 @@
+// copy.ts copies and moves files and folders, including between drives,
+// with progress reporting and optional verification of the copied data.
+
+import {
+    FilePath, FileStatus,
+    exists, isFolderPath, makeDirectory, readRanges, removeTree, rename, replaceFile, resolveLink, stat, toFilePath, toFileURL,
+    walk, withFolderSlash, writeRanges
+} from "./file.ts";
+import { createHasher, hashFile } from "./hash.ts";
+import { dataToHex } from "./utility.ts";
+
+/** The size of the chunks read from the source file */
+const COPY_CHUNK_LENGTH = 1024 * 1024; // 1 MB
+
+/** The progress of a copy or move */
+export interface CopyProgress {
+    /** The file being copied */
+    source: URL;
+
+    /** The location of the copy */
+    destination: URL;
+
+    /** The number of bytes copied so far (across all files) */
+    copied: number;
+
+    /** The total number of bytes to copy (across all files) */
+    total: number;
+}
+
+/**
+ * How copied files are checked.
+ * "size" compares the size of the copy with the size of the source.
+ * "hash" compares the SHA-256 digest of the data read from the source while copying with the digest of the copy.
+ */
+export type CopyVerification = "none" | "size" | "hash";
+
+export interface CopyOptions {
+    /** Replace files that already exist at the destination. The default is false. */
+    overwrite?: boolean;
+
+    /** How copied files are checked. The default is "size" for copy and "hash" for a move between drives. */
+    verify?: CopyVerification;
+
+    /** Called as data is copied */
+    onProgress?: (progress: CopyProgress) => void;
+}
+
+/** Thrown when a copied file does not match the source */
+export class CopyVerificationError extends Error {
+    source: URL;
+    destination: URL;
+
+    constructor(source: URL, destination: URL, reason: string) {
+        super(`Copy of '${toFilePath(source)}' to '${toFilePath(destination)}' failed verification: ${reason}`);
+        this.name = "CopyVerificationError";
+        this.source = source;
+        this.destination = destination;
+    }
+}
+
+/** Returns the status of the file or folder, following symbolic links */
+async function statTarget(url: URL): Promise<FileStatus> {
+    const status = await stat(url);
+    if (status.kind !== "symlink") {
+        return status;
+    }
+
+    const target = await resolveLink(url);
+    if (target === undefined) {
+        throw new Deno.errors.NotFound(`The target of '${toFilePath(url)}' does not exist`);
+    }
+    return await stat(target);
+}
+
+/** Lists the files and folders to copy as [source, destination] pairs with the total size of the files */
+async function copyList(source: URL, destination: URL): Promise<{ items: [URL, URL][], total: number }> {
+    const status = await statTarget(source);
+    if (status.kind !== "folder") {
+        return { items: [[withFolderSlash(source, false), withFolderSlash(destination, false)]], total: status.size };
+    }
+
+    source = withFolderSlash(source, true);
+    destination = withFolderSlash(destination, true);
+
+    const items: [URL, URL][] = [[source, destination]];
+    let total = 0;
+    for await (const url of walk(source)) {
+        items.push([url, new URL(url.href.substring(source.href.length), destination)]);
+        if (!isFolderPath(url)) {
+            total += (await statTarget(url)).size;
+        }
+    }
+    return { items, total };
+}
+
+/** Copies a single file through a temporary file so that the destination never contains partial data */
+async function copyFile(source: URL, destination: URL, options: CopyOptions | undefined, progress: CopyProgress): Promise<void> {
+    if (!options?.overwrite && await exists(destination)) {
+        throw new Deno.errors.AlreadyExists(`'${toFilePath(destination)}' already exists`);
+    }
+
+    const verify = options?.verify ?? "size";
+    // The source is hashed as it is copied so that it is only read once
+    const hasher = (verify === "hash") ? createHasher("SHA-256") : undefined;
+    const size = (await statTarget(source)).size;
+
+    async function* chunks() {
+        for await (const chunk of readRanges(source, { length: COPY_CHUNK_LENGTH })) {
+            hasher?.update(chunk);
+            yield chunk;
+            progress.copied += chunk.length;
+            options?.onProgress?.({ ...progress, source, destination });
+        }
+    }
+
+    await replaceFile(destination, async (tempPath) => {
+        const written = await writeRanges(tempPath, chunks(), { truncate: true });
+
+        if (verify === "none") {
+            return;
+        }
+
+        const copySize = (await stat(tempPath)).size;
+        if ((written !== size) || (copySize !== size)) {
+            throw new CopyVerificationError(source, destination, `expected ${size} bytes, copied ${written}, found ${copySize}`);
+        }
+
+        if (hasher !== undefined) {
+            const expected = dataToHex(hasher.digest());
+            const actual = await hashFile(tempPath, "SHA-256");
+            if (actual !== expected) {
+                throw new CopyVerificationError(source, destination, `expected SHA-256 ${expected}, found ${actual}`);
+            }
+        }
+    });
+}
+
+/**
+ * Copies a file, or a folder and everything in it.
+ * Symbolic links are followed, so the copy contains the files that the links point to.
+ *
+ * Each file is written to a temporary file next to the destination and renamed when complete,
+ * so a destination file never contains partial data.
+ * Existing folders at the destination are merged with the copied folders.
+ *
+ * @param source The file or folder to copy
+ * @param destination The location of the copy (not the folder to copy into)
+ * @param options Overwriting, verification, and progress
+ */
+export async function copy(source: FilePath, destination: FilePath, options?: CopyOptions): Promise<void> {
+    const { items, total } = await copyList(toFileURL(source), toFileURL(destination));
+
+    const progress: CopyProgress = { source: items[0][0], destination: items[0][1], copied: 0, total };
+    for (const [sourceURL, destinationURL] of items) {
+        if (isFolderPath(sourceURL)) {
+            await makeDirectory(destinationURL);
+        } else {
+            await copyFile(sourceURL, destinationURL, options, progress);
+        }
+    }
+}
+
+/** Returns true if the error was caused by renaming across file systems */
+function isCrossDeviceError(e: unknown): boolean {
+    return (e instanceof Error) && (((e as { code?: string }).code === "EXDEV") || /cross-device|os error 18\b/i.test(e.message));
+}
+
+/**
+ * Moves a file or folder.
+ *
+ * Uses rename when possible. When the source and destination are on different drives,
+ * copies the source (verifying the copy using SHA-256 unless another `verify` option is provided)
+ * and then removes the source. The source is only removed if the whole copy succeeds.
+ *
+ * @param source The file or folder to move
+ * @param destination The new location (not the folder to move into)
+ * @param options Overwriting, verification, and progress
+ */
+export async function move(source: FilePath, destination: FilePath, options?: CopyOptions): Promise<void> {
+    const sourceURL = toFileURL(source);
+    const isFolder = (await stat(sourceURL)).kind === "folder";
+    const destinationURL = withFolderSlash(toFileURL(destination), isFolder);
+
+    if (!options?.overwrite && await exists(destinationURL)) {
+        throw new Deno.errors.AlreadyExists(`'${toFilePath(destinationURL)}' already exists`);
+    }
+
+    try {
+        await rename(withFolderSlash(sourceURL, isFolder), destinationURL);
+        return;
+    } catch (e) {
+        if (!isCrossDeviceError(e)) {
+            throw e;
+        }
+    }
+
+    await copy(sourceURL, destinationURL, { ...options, verify: options?.verify ?? "hash" });
+
+    await removeTree(sourceURL);
+}
@@ -0,0 +1,89 @@
+import { MemoryFileSystem } from "./file-memory.ts";
+import { copy, CopyProgress, move } from "./copy.ts";
+import { exists, readTextFile, setFileSystem, toFilePath, walk } from "./file.ts";
+import { arrayFrom } from "./utility.ts";
+
+const tree = {
+    "WD01/": {
+        "TV/": {
+            "Season 1/": {
+                "Rose.mp4": "Rose",
+                "Rose.txt": "Rose Tyler meets the Doctor.",
+            },
+        },
+    },
+    "WD02/": {},
+};
+
+/** A memory file system where each top-level folder behaves like a separate drive */
+class Drives extends MemoryFileSystem {
+    override async rename(oldPath: string, newPath: string): Promise<void> {
+        if (oldPath.split("/")[1] !== newPath.split("/")[1]) {
+            throw Object.assign(new Error(`Invalid cross-device link (os error 18)`), { code: "EXDEV" });
+        }
+        return await super.rename(oldPath, newPath);
+    }
+}
+
+async function withDrives(fn: () => Promise<void>) {
+    const previous = setFileSystem(new Drives(tree));
+    try {
+        await fn();
+    } finally {
+        setFileSystem(previous);
+    }
+}
+
+const paths = async (folder: string) => (await arrayFrom(walk(folder, { sort: "name" }))).map(url => toFilePath(url));
+
+Deno.test("copy", async function () {
+    await withDrives(async () => {
+        const progress: CopyProgress[] = [];
+        await copy("/WD01/TV/Season 1", "/WD02/Season 1", { verify: "hash", onProgress: p => progress.push(p) });
+
+        const copied = await paths("/WD02/");
+        if (copied.join("|") !== "/WD02/Season 1/|/WD02/Season 1/Rose.mp4|/WD02/Season 1/Rose.txt") {
+            throw `FAIL: copy: ${copied}`;
+        }
+
+        const last = progress[progress.length - 1];
+        if ((progress.length !== 2) || (last.copied !== 32) || (last.total !== 32)) {
+            throw `FAIL: progress: ${JSON.stringify(progress)}`;
+        }
+
+        try {
+            await copy("/WD01/TV/Season 1/Rose.txt", "/WD02/Season 1/Rose.txt");
+            throw `FAIL: copy should not overwrite`;
+        } catch (e) {
+            if (!(e instanceof Deno.errors.AlreadyExists)) {
+                throw e;
+            }
+        }
+
+        await copy("/WD01/TV/Season 1/Rose.mp4", "/WD02/Season 1/Rose.txt", { overwrite: true });
+        if ((await readTextFile("/WD02/Season 1/Rose.txt")) !== "Rose") {
+            throw `FAIL: overwrite`;
+        }
+    });
+});
+
+Deno.test("move", async function () {
+    await withDrives(async () => {
+        // Same drive: rename
+        await move("/WD01/TV/Season 1/Rose.txt", "/WD01/TV/Season 1/Rose (Synopsis).txt");
+        if (!(await exists("/WD01/TV/Season 1/Rose (Synopsis).txt"))) {
+            throw `FAIL: move file`;
+        }
+
+        // Different drives: copy, verify, and remove
+        await move("/WD01/TV/", "/WD02/TV/");
+        const moved = await paths("/WD02/");
+        if (moved.join("|") !== "/WD02/TV/|/WD02/TV/Season 1/|/WD02/TV/Season 1/Rose (Synopsis).txt|/WD02/TV/Season 1/Rose.mp4") {
+            throw `FAIL: move folder: ${moved}`;
+        }
+
+        if (await exists("/WD01/TV/")) {
+            throw `FAIL: source not removed`;
+        }
+    });
+});
@@ -1,10 +1,16 @@
 // A comical implementation of a small part of the fetch API built on top of curl
-// Currently will leak disk space!!!! Hard-coded directories!!!! Success-oriented coding!!!!
+// Success-oriented coding!!!!
+// Response bodies are kept in a temporary folder that is removed when the process exits.
 
-import { FilePath, execute, toFilePath, toFileURL, readTextFile, exists, writeTextFile, rename } from "./file.ts";
+import { FilePath, execute, toFilePath, readTextFile, makeTempFolder } from "./file.ts";
 import { PublicKeyHash, CertificateUtility, CertificateLibrary, Certificate, NameResolver, toPort, Protocol, HTTPS, toProtocol, isServer } from "./ssl.ts";
 
-const cacheFolder = toFileURL("/Users/user/Desktop/__current/"); // TODO
+let cacheFolder_: Promise<URL> | undefined;
+
+/** The temporary folder that holds the response bodies for this process */
+function cacheFolder(): Promise<URL> {
+    return cacheFolder_ ??= makeTempFolder({ prefix: "fetch-curl-" });
+}
 
 export type HttpClient = {
     protocolsAllowed?: Protocol[],
@@ -145,9 +151,9 @@ export async function fetch(url: URL | string, options?: { method?: string, body
         return new URL(location);
     }
 
-    const unique = await execute("uuidgen");
-    const bodyURL = new URL(unique + "-body.txt", cacheFolder);
-    const headerURL = new URL(unique + "-header.txt", cacheFolder);
+    const folder = await makeTempFolder({ folder: await cacheFolder(), keep: true });
+    const bodyURL = new URL("body.txt", folder);
+    const headerURL = new URL("header.txt", folder);
     const responseURL = await downloadFile(requestURL, bodyURL, headerURL);
     return new Response(requestURL, responseURL, bodyURL, headerURL);
 }
\ No newline at end of file
@@ -0,0 +1,537 @@
+// An in-memory implementation of the FileSystem interface from file.ts
+// so that code built on file.ts (junction.ts, satellite.ts, media.ts) can be tested
+// deterministically without touching the disk.
+
+// Install it with `setFileSystem(new MemoryFileSystem(tree))`.
+
+// The tree is a JSON-style description of folders and files:
+// {
+//     "TV/": {
+//         "Doctor Who/": {
+//             "Doctor Who - 01-01 Rose.mp4": "",
+//             "Doctor Who - 01-01 Rose.txt": "Rose Tyler meets the Doctor.",
+//         },
+//     },
+//     "TV.junction": "OPTIONAL\nfile:///TV/",
+// }
+// Names that end with a slash are folders and their values are trees.
+// Other names are files and their values are the content of the file as a string or Uint8Array,
+// or an object like `{ data: "content", mtime: "2005-03-26T19:00:00Z" }` to set the modification time.
+// A name whose value is an object like `{ link: "../Other/" }` is a symbolic link.
+// Relative link targets are resolved against the folder containing the link.
+// The tree is placed at the root of the file system unless a different root is provided.
+
+import {
+    FileHandle, FilePath, FileSystem, FileSystemEntry, FileSystemEvent, FileSystemInfo, FileSystemType, FileSystemWatcher,
+    OpenOptions, WriteFileOptions,
+    toFilePath
+} from "./file.ts";
+import { AsyncList } from "./promise.ts";
+
+/** A description of a file with its content and modification time */
+export type MemoryFileDescription = { data: string | Uint8Array, mtime?: Date | string };
+
+/** A description of a symbolic link */
+export type MemoryLinkDescription = { link: string };
+
+/** A JSON-style description of the content of a folder */
+export type MemoryTree = { [name: string]: string | Uint8Array | MemoryFileDescription | MemoryLinkDescription | MemoryTree };
+
+interface MemoryNodeInfo {
+    mtime: Date;
+    ctime: Date;
+    ino: number;
+}
+
+interface MemoryFile extends MemoryNodeInfo {
+    kind: "file";
+    data: Uint8Array;
+}
+
+interface MemoryFolder extends MemoryNodeInfo {
+    kind: "folder";
+    children: Map<string, MemoryNode>;
+}
+
+interface MemorySymlink extends MemoryNodeInfo {
+    kind: "symlink";
+    target: string;
+}
+
+type MemoryNode = MemoryFile | MemoryFolder | MemorySymlink;
+
+/** The device number reported for every entry in a memory file system */
+const MEMORY_DEVICE = 0;
+
+/** The maximum number of symbolic links followed while resolving a path */
+const MEMORY_LINK_LIMIT = 32;
+
+let inodeCount = 0;
+
+function createInfo(mtime = new Date()): MemoryNodeInfo {
+    return { mtime, ctime: mtime, ino: ++inodeCount };
+}
+
+function createFolder(): MemoryFolder {
+    return { kind: "folder", children: new Map(), ...createInfo() };
+}
+
+function createFile(data: Uint8Array, mtime?: Date): MemoryFile {
+    return { kind: "file", data, ...createInfo(mtime) };
+}
+
+function createSymlink(target: string): MemorySymlink {
+    return { kind: "symlink", target, ...createInfo() };
+}
+
+function isLinkDescription(value: MemoryTree[string]): value is MemoryLinkDescription {
+    return (typeof (value as MemoryLinkDescription).link === "string");
+}
+
+function isFileDescription(value: MemoryTree[string]): value is string | Uint8Array | MemoryFileDescription {
+    return (typeof value === "string") || (value instanceof Uint8Array) || ((value as MemoryFileDescription).data !== undefined);
+}
+
+function toFileDescription(value: string | Uint8Array | MemoryFileDescription): MemoryFileDescription {
+    return ((typeof value === "string") || (value instanceof Uint8Array)) ? { data: value } : value;
+}
+
+/** Splits a path or URL into its decoded names, ignoring empty segments */
+function pathNames(filePath: FilePath): string[] {
+    return toFilePath(filePath).split("/").filter(name => name.length > 0);
+}
+
+function toType(node: MemoryNode): FileSystemType {
+    return { isFile: node.kind === "file", isDirectory: node.kind === "folder", isSymlink: node.kind === "symlink" };
+}
+
+function size(node: MemoryNode): number {
+    switch (node.kind) {
+        case "file": return node.data.length;
+        case "symlink": return new TextEncoder().encode(node.target).length;
+        default: return 0;
+    }
+}
+
+function toInfo(node: MemoryNode): FileSystemInfo {
+    return {
+        ...toType(node),
+        size: size(node),
+        mtime: node.mtime,
+        ctime: node.ctime,
+        ino: node.ino,
+        dev: MEMORY_DEVICE,
+    };
+}
+
+/** Returns the result of a synchronous operation as a promise, or its exception as a rejected promise */
+function settle<T>(operation: () => T): Promise<T> {
+    try {
+        return Promise.resolve(operation());
+    } catch (e) {
+        return Promise.reject(e);
+    }
+}
+
+/** Records a change to the data of a file or the contents of a folder */
+function touch(node: MemoryNode) {
+    node.mtime = new Date();
+    node.ctime = node.mtime;
+}
+
+/** A watcher registered with a memory file system */
+interface MemoryWatcher {
+    names: string[];
+    recursive: boolean;
+    events: AsyncList<FileSystemEvent>;
+}
+
+/** A file system that exists only in memory */
+export class MemoryFileSystem implements FileSystem {
+    root: MemoryFolder = createFolder();
+    watchers: MemoryWatcher[] = [];
+
+    /**
+     * @param tree The initial content of the file system
+     * @param folderPath The folder in which to place the tree
+     */
+    constructor(tree?: MemoryTree, folderPath: FilePath = "/") {
+        if (tree !== undefined) {
+            this.seed(tree, folderPath);
+        }
+    }
+
+    /**
+     * Adds the folders and files described by the tree to the file system.
+     * Existing files with the same names are replaced.
+     *
+     * @param tree The content to add
+     * @param folderPath The folder in which to place the tree (created if necessary)
+     */
+    seed(tree: MemoryTree, folderPath: FilePath = "/"): void {
+        this.seedNames(tree, pathNames(folderPath));
+    }
+
+    seedNames(tree: MemoryTree, names: string[]): void {
+        const folder = this.folder(names, true);
+        for (const [key, value] of Object.entries(tree)) {
+            if (key.endsWith("/")) {
+                if (isFileDescription(value)) {
+                    throw new TypeError(`MemoryFileSystem: folder '${key}' must be described by a tree`);
+                }
+                this.seedNames(value, [...names, key.substring(0, key.length - 1)]);
+            } else if (isLinkDescription(value)) {
+                folder.children.set(key, createSymlink(value.link));
+            } else {
+                if (!isFileDescription(value)) {
+                    throw new TypeError(`MemoryFileSystem: file '${key}' must be described by a string, Uint8Array, { data, mtime }, or { link }`);
+                }
+                const description = toFileDescription(value);
+                const data = (typeof description.data === "string") ? new TextEncoder().encode(description.data) : description.data.slice();
+                const mtime = (description.mtime !== undefined) ? new Date(description.mtime) : undefined;
+                folder.children.set(key, createFile(data, mtime));
+            }
+        }
+    }
+
+    /**
+     * Follows the names from the root folder, resolving symbolic links along the way,
+     * and returns the node along with the names of its real location.
+     * 
+     * @param names The names to follow
+     * @param followLast Whether to resolve the last name if it is a symbolic link
+     * @param create Whether to create missing folders
+     */
+    resolve(names: string[], followLast = true, create = false): { node: MemoryNode, names: string[] } {
+        const description = `/${names.join("/")}`;
+
+        let pending = [...names];
+        let real: string[] = [];
+        let current: MemoryNode = this.root;
+        let links = 0;
+
+        while (pending.length > 0) {
+            const name = pending.shift()!;
+
+            if (name === ".") {
+                continue;
+            }
+
+            if (name === "..") {
+                real.pop();
+                current = this.resolve(real).node;
+                continue;
+            }
+
+            if (current.kind !== "folder") {
+                throw new Error(`MemoryFileSystem: '${description}' is not in a folder`);
+            }
+
+            let next = current.children.get(name);
+            if (next === undefined) {
+                if (!create) {
+                    throw new Deno.errors.NotFound(`MemoryFileSystem: '${description}' not found`);
+                }
+                next = createFolder();
+                current.children.set(name, next);
+                touch(current);
+            }
+
+            if ((next.kind === "symlink") && ((pending.length > 0) || followLast)) {
+                if (++links > MEMORY_LINK_LIMIT) {
+                    throw new Error(`MemoryFileSystem: '${description}' has too many levels of symbolic links`);
+                }
+
+                if (next.target.startsWith("/")) {
+                    real = [];
+                    current = this.root;
+                }
+
+                pending = [...next.target.split("/").filter(name => name.length > 0), ...pending];
+                continue;
+            }
+
+            real.push(name);
+            current = next;
+        }
+
+        return { node: current, names: real };
+    }
+
+    /** Returns true if the path exists (following symbolic links) */
+    exists(names: string[]): boolean {
+        try {
+            this.resolve(names);
+            return true;
+        } catch (e) {
+            if (e instanceof Deno.errors.NotFound) {
+                return false;
+            }
+            throw e;
+        }
+    }
+
+    /** Finds the folder at the specified path, optionally creating it and any missing parents */
+    folder(names: string[], create = false): MemoryFolder {
+        const { node } = this.resolve(names, true, create);
+        if (node.kind !== "folder") {
+            throw new Error(`MemoryFileSystem: '/${names.join("/")}' is not a folder`);
+        }
+        return node;
+    }
+
+    /** Returns the parent folder and name of the specified path */
+    parent(filePath: FilePath): { folder: MemoryFolder, name: string, names: string[] } {
+        const names = pathNames(filePath);
+        const name = names[names.length - 1];
+        if (name === undefined) {
+            throw new Error(`MemoryFileSystem: the root folder cannot be modified`);
+        }
+        return { folder: this.folder(names.slice(0, -1)), name, names };
+    }
+
+    /** Reports a change to the watchers of the folders containing the paths */
+    notify(kind: FileSystemEvent["kind"], paths: string[][]): void {
+        for (const watcher of this.watchers) {
+            const watched = paths.some(names =>
+                watcher.names.every((name, index) => names[index] === name) &&
+                (watcher.recursive ? (names.length > watcher.names.length) : (names.length === watcher.names.length + 1))
+            );
+            if (watched) {
+                watcher.events.push({ kind, paths: paths.map(names => `/${names.join("/")}`) });
+            }
+        }
+    }
+
+    watch(folderPath: string, options: { recursive: boolean }): FileSystemWatcher {
+        const watcher: MemoryWatcher = { names: pathNames(folderPath), recursive: options.recursive, events: new AsyncList() };
+        this.folder(watcher.names);
+        this.watchers.push(watcher);
+        return {
+            [Symbol.asyncIterator]: () => watcher.events[Symbol.asyncIterator](),
+            close: () => {
+                this.watchers = this.watchers.filter(w => w !== watcher);
+                watcher.events.close();
+            },
+        };
+    }
+
+    open(filePath: FilePath, options: OpenOptions = { read: true }): Promise<FileHandle> {
+        return settle(() => this.openHandle(filePath, options));
+    }
+
+    /** Opens a file synchronously (see open) */
+    openHandle(filePath: FilePath, options: OpenOptions): FileHandle {
+        const { folder, name, names } = this.parent(filePath);
+        const notify = (kind: FileSystemEvent["kind"]) => this.notify(kind, [names]);
+
+        let node = folder.children.get(name);
+        if (node?.kind === "symlink") {
+            node = this.resolve(names).node;
+        }
+
+        if ((node !== undefined) && options.createNew) {
+            throw new Deno.errors.AlreadyExists(`MemoryFileSystem: '${toFilePath(filePath)}' already exists`);
+        }
+
+        if (node === undefined) {
+            if (!options.create && !options.createNew) {
+                throw new Deno.errors.NotFound(`MemoryFileSystem: '${toFilePath(filePath)}' not found`);
+            }
+            node = createFile(new Uint8Array(0));
+            folder.children.set(name, node);
+            touch(folder);
+            notify("create");
+        }
+
+        if (node.kind !== "file") {
+            throw new Error(`MemoryFileSystem: '${toFilePath(filePath)}' is not a file`);
+        }
+
+        if (options.truncate && (node.data.length > 0)) {
+            node.data = new Uint8Array(0);
+            touch(node);
+            notify("modify");
+        }
+
+        const file = node;
+        const append = options.append || false;
+        let position = 0;
+        let closed = false;
+
+        function check() {
+            if (closed) {
+                throw new Deno.errors.BadResource(`MemoryFileSystem: file is closed`);
+            }
+        }
+
+        return {
+            read(buffer: Uint8Array): Promise<number | null> {
+                return settle(() => {
+                    check();
+                    if (position >= file.data.length) {
+                        return null;
+                    }
+                    const chunk = file.data.subarray(position, position + buffer.length);
+                    buffer.set(chunk);
+                    position += chunk.length;
+                    return chunk.length;
+                });
+            },
+
+            write(data: Uint8Array): Promise<number> {
+                return settle(() => {
+                    check();
+                    if (append) {
+                        position = file.data.length;
+                    }
+                    const end = position + data.length;
+                    if (end > file.data.length) {
+                        const grown = new Uint8Array(end);
+                        grown.set(file.data);
+                        file.data = grown;
+                    }
+                    file.data.set(data, position);
+                    position = end;
+                    touch(file);
+                    notify("modify");
+                    return data.length;
+                });
+            },
+
+            seek(offset: number): Promise<number> {
+                return settle(() => {
+                    check();
+                    position = offset;
+                    return position;
+                });
+            },
+
+            stat(): Promise<FileSystemInfo> {
+                return settle(() => {
+                    check();
+                    return toInfo(file);
+                });
+            },
+
+            sync(): Promise<void> {
+                return settle(() => {
+                    check();
+                });
+            },
+
+            close() {
+                check();
+                closed = true;
+            },
+        };
+    }
+
+    lstat(filePath: FilePath): Promise<FileSystemInfo> {
+        return settle(() => {
+            return toInfo(this.resolve(pathNames(filePath), false).node);
+        });
+    }
+
+    readLink(filePath: FilePath): Promise<string> {
+        return settle(() => {
+            const { node } = this.resolve(pathNames(filePath), false);
+            if (node.kind !== "symlink") {
+                throw new Error(`MemoryFileSystem: '${toFilePath(filePath)}' is not a symbolic link`);
+            }
+            return node.target;
+        });
+    }
+
+    readDirectory(folderPath: URL): AsyncIterable<FileSystemEntry> {
+        const folder = this.folder(pathNames(folderPath));
+
+        async function* readDirectory_() {
+            // Copy the names so that changes during iteration don't affect the listing
+            for (const [name, node] of [...folder.children]) {
+                yield { name, ...toType(node) };
+            }
+        }
+
+        return readDirectory_();
+    }
+
+    async makeDirectory(filePath: FilePath, options: { recursive: boolean }): Promise<void> {
+        const names = pathNames(filePath);
+        if (options.recursive) {
+            if (names.length === 0) {
+                // The root folder always exists
+                return;
+            }
+
+            // Create missing parents one at a time so that watchers are notified of each one
+            const parentNames = names.slice(0, -1);
+            if (!this.exists(parentNames)) {
+                await this.makeDirectory(`/${parentNames.join("/")}`, options);
+            }
+        }
+
+        const { folder, name } = this.parent(filePath);
+        if (folder.children.has(name)) {
+            if (options.recursive) {
+                this.folder(names);
+                return;
+            }
+            throw new Deno.errors.AlreadyExists(`MemoryFileSystem: '${toFilePath(filePath)}' already exists`);
+        }
+        folder.children.set(name, createFolder());
+        touch(folder);
+        this.notify("create", [names]);
+    }
+
+    async writeFile(filePath: FilePath, data: Uint8Array, options?: WriteFileOptions): Promise<void> {
+        const file = await this.open(filePath, {
+            write: true,
+            create: options?.create ?? true,
+            createNew: options?.createNew,
+            append: options?.append,
+            truncate: !options?.append,
+        });
+        try {
+            await file.write(data);
+        } finally {
+            file.close();
+        }
+    }
+
+    rename(oldPath: string, newPath: string): Promise<void> {
+        return settle(() => {
+            const source = this.parent(oldPath);
+            const node = source.folder.children.get(source.name);
+            if (node === undefined) {
+                throw new Deno.errors.NotFound(`MemoryFileSystem: '${oldPath}' not found`);
+            }
+
+            const destination = this.parent(newPath);
+            source.folder.children.delete(source.name);
+            destination.folder.children.set(destination.name, node);
+            touch(source.folder);
+            touch(destination.folder);
+            node.ctime = new Date();
+            this.notify("rename", [source.names, destination.names]);
+        });
+    }
+
+    remove(filePath: FilePath): Promise<void> {
+        return settle(() => {
+            const { folder, name, names } = this.parent(filePath);
+            const node = folder.children.get(name);
+            if (node === undefined) {
+                throw new Deno.errors.NotFound(`MemoryFileSystem: '${toFilePath(filePath)}' not found`);
+            }
+
+            if ((node.kind === "folder") && (node.children.size > 0)) {
+                throw new Error(`MemoryFileSystem: '${toFilePath(filePath)}' is not empty`);
+            }
+
+            folder.children.delete(name);
+            touch(folder);
+            this.notify("remove", [names]);
+        });
+    }
+}
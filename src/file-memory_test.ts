@@ -0,0 +1,861 @@
+import { MemoryFileSystem, MemoryTree } from "./file-memory.ts";
+import {
+    appendFile, cat, close, directoryEntries, exists, fetchToFile, fileName, globToRegExp, makeDirectory, makeTempFile, open, readableStream, readLines, readTextFile, remove, removeTemp, rename, replaceFile, resolveLink, setFileSystem, sniffMimeType, stat,
+    toFilePath, walk, watch, withTempFolder, writableStream, writeRange, writeTextFile,
+    FilePath, LineLengthError, OpenOptions, SymlinkCycleError, WatchEvent
+} from "./file.ts";
+import {
+    addJunctionTarget, createEntry, findShadowedFiles, JunctionConflictError, JunctionCycleError, JunctionDepthError, JunctionParseError, JunctionValidationError, loadEntry, readJunction, removeJunctionTarget, replaceJunctionTarget,
+    writeJunction
+} from "./junction.ts";
+import { getMediaGroups, MediaPrimary } from "./media.ts";
+import { Primary } from "./satellite.ts";
+import { arrayFrom } from "./utility.ts";
+
+const tree = {
+    "Drive1/": {
+        "TV/": {
+            "Doctor Who/": {
+                "Season 1/": {
+                    "Doctor Who - 01-01 Rose.mp4": "",
+                    "Doctor Who - 01-01 Rose.txt": { data: "Rose Tyler meets the Doctor.", mtime: "2005-03-26T19:00:00Z" },
+                },
+            },
+        },
+    },
+    "Drive2/": {
+        "TV/": {
+            "Doctor Who/": {
+                "Season 1/": {
+                    "Doctor Who - 01-02 The End of the World.mp4": "",
+                },
+            },
+        },
+    },
+    "TV.junction": "REQUIRED\nfile:///Drive1/TV/\nfile:///Drive2/TV/",
+};
+
+/** Runs the test function with a memory file system containing `files` (the shared tree by default) installed */
+async function withMemory(fn: (fs: MemoryFileSystem) => Promise<void>, files: MemoryTree | MemoryFileSystem = tree) {
+    const fs = (files instanceof MemoryFileSystem) ? files : new MemoryFileSystem(files);
+    const previous = setFileSystem(fs);
+    try {
+        await fn(fs);
+    } finally {
+        setFileSystem(previous);
+    }
+}
+
+Deno.test("memory-file", async function () {
+    await withMemory(async () => {
+        const text = await readTextFile("/Drive1/TV/Doctor Who/Season 1/Doctor Who - 01-01 Rose.txt");
+        if (text !== "Rose Tyler meets the Doctor.") {
+            throw `FAIL: readTextFile: ${text}`;
+        }
+
+        await writeTextFile("file:///Drive1/new.txt", "new");
+        await rename("/Drive1/new.txt", "/Drive2/renamed.txt");
+        if ((await exists("/Drive1/new.txt")) || !(await exists("/Drive2/renamed.txt"))) {
+            throw `FAIL: rename`;
+        }
+
+        await remove("/Drive2/renamed.txt");
+        if (await exists("/Drive2/renamed.txt")) {
+            throw `FAIL: remove`;
+        }
+
+        const entries = (await arrayFrom(directoryEntries("/Drive1/TV/Doctor Who/Season 1/"))).map(url => url.href);
+        const expected = [
+            "file:///Drive1/TV/Doctor%20Who/Season%201/Doctor%20Who%20-%2001-01%20Rose.mp4",
+            "file:///Drive1/TV/Doctor%20Who/Season%201/Doctor%20Who%20-%2001-01%20Rose.txt",
+        ];
+        if (entries.join("\n") !== expected.join("\n")) {
+            throw `FAIL: directoryEntries: ${entries}`;
+        }
+    });
+});
+
+Deno.test("memory-atomic", async function () {
+    await withMemory(async () => {
+        const path = "/Drive1/atomic.txt";
+        await writeTextFile(path, "first", { atomic: true, sync: true });
+        if ((await readTextFile(path)) !== "first") {
+            throw `FAIL: atomic write`;
+        }
+
+        try {
+            await replaceFile(path, async (tempPath) => {
+                await writeTextFile(tempPath, "second");
+                throw new Error("validation failed");
+            });
+        } catch (e) {
+            if ((e as Error).message !== "validation failed") {
+                throw e;
+            }
+        }
+
+        if ((await readTextFile(path)) !== "first") {
+            throw `FAIL: failed replaceFile changed the destination`;
+        }
+
+        const names = (await arrayFrom(directoryEntries("/Drive1/"))).map(url => url.pathname);
+        if (names.join("|") !== "/Drive1/TV/|/Drive1/atomic.txt") {
+            throw `FAIL: temporary file left behind: ${names}`;
+        }
+
+        // Simultaneous replacements use their own temporary files and leave partial downloads alone
+        await writeTextFile(`${path}.download`, "partial");
+        const tempPaths: string[] = [];
+        await Promise.all(["third", "fourth"].map(text => replaceFile(path, async (tempPath) => {
+            tempPaths.push(tempPath.pathname);
+            await writeTextFile(tempPath, text);
+        })));
+        const replaced = await readTextFile(path);
+        if ((tempPaths[0] === tempPaths[1]) || !tempPaths.every(tempPath => tempPath.endsWith(".tmp")) || !["third", "fourth"].includes(replaced)) {
+            throw `FAIL: simultaneous replaceFile: ${tempPaths} ${replaced}`;
+        }
+        if ((await readTextFile(`${path}.download`)) !== "partial") {
+            throw `FAIL: replaceFile changed a partial download`;
+        }
+    });
+});
+
+Deno.test("memory-write-range", async function () {
+    await withMemory(async () => {
+        const path = "/Drive1/range.txt";
+        const encoder = new TextEncoder();
+
+        await writeRange(path, encoder.encode("Hello World"));
+        await writeRange(path, encoder.encode("w"), { start: 6 });
+        await appendFile(path, encoder.encode("!"));
+
+        const file = await open(path, { write: true });
+        try {
+            await writeRange(file, encoder.encode("J"), { start: 0 });
+            await appendFile(file, encoder.encode("?"));
+        } finally {
+            close(file);
+        }
+
+        const text = await readTextFile(path);
+        if (text !== "Jello world!?") {
+            throw `FAIL: writeRange: ${text}`;
+        }
+
+        await cat({ source: path, destination: "/Drive1/copy.txt" });
+        await cat({ source: path, destination: "/Drive1/copy.txt" });
+        const copy = await readTextFile("/Drive1/copy.txt");
+        if (copy !== text + text) {
+            throw `FAIL: cat: ${copy}`;
+        }
+    });
+});
+
+Deno.test("memory-stat", async function () {
+    await withMemory(async () => {
+        const path = "file:///Drive1/TV/Doctor%20Who/Season%201/Doctor%20Who%20-%2001-01%20Rose.txt";
+        const status = await stat(path);
+        if ((status.kind !== "file") || (status.size !== 28)) {
+            throw `FAIL: stat: ${JSON.stringify(status)}`;
+        }
+
+        if (status.mtime?.toISOString() !== "2005-03-26T19:00:00.000Z") {
+            throw `FAIL: stat mtime: ${status.mtime}`;
+        }
+
+        const file = await open(path);
+        try {
+            const fileStatus = await stat(file);
+            if (fileStatus.inode !== status.inode) {
+                throw `FAIL: stat of open file: ${JSON.stringify(fileStatus)}`;
+            }
+        } finally {
+            close(file);
+        }
+
+        const folderStatus = await stat("/Drive1/TV/");
+        if (folderStatus.kind !== "folder") {
+            throw `FAIL: stat folder: ${JSON.stringify(folderStatus)}`;
+        }
+    });
+});
+
+Deno.test("memory-symlinks", async function () {
+    const links: MemoryTree = {
+        "Links/": {
+            "Season 1": { link: "../Drive1/TV/Doctor Who/Season 1/" },
+            "Rose.txt": { link: "/Drive1/TV/Doctor Who/Season 1/Doctor Who - 01-01 Rose.txt" },
+            "Missing": { link: "Nowhere" },
+        },
+        "Drive1/": tree["Drive1/"],
+        "Loop/": {
+            "A": { link: "B" },
+            "B": { link: "A" },
+        },
+    };
+
+    await withMemory(async () => {
+        const followed = (await arrayFrom(directoryEntries("/Links/"))).map(url => url.href);
+        if (followed.join("|") !== "file:///Links/Season%201/|file:///Links/Rose.txt|file:///Links/Missing") {
+            throw `FAIL: follow: ${followed}`;
+        }
+
+        const reported = (await arrayFrom(directoryEntries("/Links/", { symlinks: "report" }))).map(url => url.href);
+        if (reported.join("|") !== "file:///Links/Season%201|file:///Links/Rose.txt|file:///Links/Missing") {
+            throw `FAIL: report: ${reported}`;
+        }
+
+        const skipped = await arrayFrom(directoryEntries("/Links/", { symlinks: "skip" }));
+        if (skipped.length !== 0) {
+            throw `FAIL: skip: ${skipped}`;
+        }
+
+        if ((await stat("/Links/Rose.txt")).kind !== "symlink") {
+            throw `FAIL: stat symlink`;
+        }
+
+        const text = await readTextFile("/Links/Season 1/Doctor Who - 01-01 Rose.txt");
+        if (text !== "Rose Tyler meets the Doctor.") {
+            throw `FAIL: read through symlink: ${text}`;
+        }
+
+        const loop = (await arrayFrom(directoryEntries("/Loop/"))).map(url => url.href);
+        if (loop.join("|") !== "file:///Loop/A|file:///Loop/B") {
+            throw `FAIL: follow cycle: ${loop}`;
+        }
+
+        try {
+            await resolveLink("/Loop/A");
+            throw `FAIL: cycle not detected`;
+        } catch (e) {
+            if (!(e instanceof SymlinkCycleError)) {
+                throw e;
+            }
+        }
+    }, links);
+});
+
+Deno.test("glob", function () {
+    const tests: [string, string, boolean][] = [
+        ["*.mp4", "Doctor Who/Season 1/Rose.mp4", true],
+        ["*.mp4", "Rose.mp4.txt", false],
+        ["Season ?/*.{mp4,m4v}", "Season 1/Rose.m4v", true],
+        ["Season ?/*.{mp4,m4v}", "Doctor Who/Season 1/Rose.m4v", false],
+        ["**/Season [0-9]/*", "Doctor Who/Season 1/Rose.mp4", true],
+        ["**/Season [!0-9]/*", "Doctor Who/Season 1/Rose.mp4", false],
+        ["/Doctor Who/**", "Doctor Who/Season 1/Rose.mp4", true],
+        ["Rose (1).txt", "Season 1/Rose (1).txt", true],
+        ["Rose (1).txt", "Season 1/Rose 1.txt", false],
+        ["Extras/", "Extras", true],
+        ["Extras/", "Season 1/Extras", true],
+        ["Season 1/Extras/", "Season 1/Extras", true],
+    ];
+
+    for (const [glob, path, expected] of tests) {
+        if (globToRegExp(glob).test(path) !== expected) {
+            throw `FAIL: glob: '${glob}' '${path}' Expected ${expected}`;
+        }
+    }
+});
+
+Deno.test("memory-walk", async function () {
+    const links: MemoryTree = {
+        "Drive1/": tree["Drive1/"],
+        "Drive2/": tree["Drive2/"],
+        "Up": { link: "/" },
+        ".hidden/": { "secret.mp4": "" },
+    };
+
+    await withMemory(async () => {
+        const paths = async (options: Parameters<typeof walk>[1]) =>
+            (await arrayFrom(walk("/", options))).map(url => decodeURIComponent(url.pathname));
+
+        const all = await paths({ sort: "name" });
+        const expected = [
+            "/.hidden/",
+            "/.hidden/secret.mp4",
+            "/Drive1/",
+            "/Drive1/TV/",
+            "/Drive1/TV/Doctor Who/",
+            "/Drive1/TV/Doctor Who/Season 1/",
+            "/Drive1/TV/Doctor Who/Season 1/Doctor Who - 01-01 Rose.mp4",
+            "/Drive1/TV/Doctor Who/Season 1/Doctor Who - 01-01 Rose.txt",
+            "/Drive2/",
+            "/Drive2/TV/",
+            "/Drive2/TV/Doctor Who/",
+            "/Drive2/TV/Doctor Who/Season 1/",
+            "/Drive2/TV/Doctor Who/Season 1/Doctor Who - 01-02 The End of the World.mp4",
+            "/Up/",
+        ];
+        if (all.join("\n") !== expected.join("\n")) {
+            throw `FAIL: walk: ${all}`;
+        }
+
+        const videos = await paths({ include: ["*.mp4"], exclude: ["Drive2"], hidden: "exclude" });
+        if (videos.join("|") !== "/Drive1/TV/Doctor Who/Season 1/Doctor Who - 01-01 Rose.mp4") {
+            throw `FAIL: walk include/exclude: ${videos}`;
+        }
+
+        const shallow = await paths({ maxDepth: 2, prune: (folder) => folder.pathname.startsWith("/Drive2/"), sort: "name" });
+        if (shallow.join("|") !== "/.hidden/|/.hidden/secret.mp4|/Drive1/|/Drive1/TV/|/Drive2/|/Up/") {
+            throw `FAIL: walk depth/prune: ${shallow}`;
+        }
+
+        // Repeatable
+        const iterable = walk("/Drive2/");
+        const first = await arrayFrom(iterable);
+        const second = await arrayFrom(iterable);
+        if ((first.length !== 4) || (first.length !== second.length)) {
+            throw `FAIL: walk repeatable: ${first.length} ${second.length}`;
+        }
+    }, links);
+});
+
+Deno.test("memory-media-groups", async function () {
+    await withMemory(async () => {
+        const entry = await loadEntry("/TV.junction");
+        const root = new MediaPrimary(entry);
+        const all = await arrayFrom(root.descendants());
+        const groups = await getMediaGroups(all);
+
+        if (groups.length !== 1) {
+            throw `FAIL: groups: Expected 1, Actual ${groups.length}`;
+        }
+
+        const group = groups[0];
+        if (group.name !== "Doctor Who - Season 1") {
+            throw `FAIL: group name: ${group.name}`;
+        }
+
+        const names = group.files.map(file => file.info.name);
+        if (names.join("|") !== "Rose|The End of the World") {
+            throw `FAIL: files: ${names}`;
+        }
+
+        const description = await group.files[0].description();
+        if (description !== "Rose Tyler meets the Doctor.") {
+            throw `FAIL: description: ${description}`;
+        }
+    });
+});
+
+Deno.test("memory-name-matching", async function () {
+    const nfc = "Blåbær".normalize("NFC");
+    const nfd = "Blåbær".normalize("NFD");
+    const memoryTree: MemoryTree = {
+        "Drive1/": { "Season 1/": { [`${nfc}.mp4`]: "" } },
+        "Drive2/": { "season 1/": { [`${nfd}.DA.srt`]: "", "Rose.mp4": "" } },
+        "TV.JUNCTION": "REQUIRED\nfile:///Drive1/\nfile:///Drive2/",
+    };
+    await withMemory(async () => {
+        const exact = await loadEntry("/TV.JUNCTION");
+        if (exact.isFolder || (exact.extension !== "JUNCTION")) {
+            throw `FAIL: exact matching loaded a junction with an upper case extension`;
+        }
+
+        const entry = await loadEntry("/TV.JUNCTION", { matching: "normalized" });
+        const seasons = await entry.children();
+        if ((seasons.length !== 1) || (seasons[0].targets.length !== 2)) {
+            throw `FAIL: normalized matching: ${seasons.map(s => s.name)}`;
+        }
+
+        const root = new Primary(entry);
+        const primary = await root.resolve([{ name: "SEASON 1" }, { name: nfd, extension: "MP4" }]);
+        const satellites = (await primary?.satellites()) ?? [];
+        if ((satellites.length !== 1) || (satellites[0].language !== "da")) {
+            throw `FAIL: normalized satellites: ${satellites.map(s => s.name)}`;
+        }
+    }, memoryTree);
+});
+
+Deno.test("memory-junction-format", async function () {
+    const memoryTree: MemoryTree = {
+        "Drive1/": { "TV/": { "Rose.mp4": "", "Rose.nfo": "" } },
+        "Drive2/": { "TV/": { "Dalek.mp4": "", "Extras/": { "Trailer.mp4": "" } } },
+        "Links/": {
+            "TV.junction": [
+                "# Television from both drives",
+                "",
+                "../Drive1/TV/ | exclude=*.nfo",
+                "/Drive2/TV/ | priority=1 exclude=Extras/",
+                "/Drive3/TV/ | optional",
+                "",
+            ].join("\r\n"),
+            "Encoded.junction": "../Drive%31/TV/\n",
+            "Bad.junction": "REQUIRED\n/Drive1/TV/\n/Drive2/TV/ | priority=high\n",
+        },
+    };
+    await withMemory(async () => {
+        const entry = await loadEntry("/Links/TV.junction");
+        const targets = entry.targets.map(url => url.pathname).join(",");
+        if (targets !== "/Drive2/TV/,/Drive1/TV/,/Drive3/TV/") {
+            throw `FAIL: junction targets: ${targets}`;
+        }
+
+        const names = (await entry.children()).map(child => `${child.name}.${child.extension}`).sort().join(",");
+        if (names !== "Dalek.mp4,Rose.mp4") {
+            throw `FAIL: junction children: ${names}`;
+        }
+
+        const encoded = await loadEntry("/Links/Encoded.junction");
+        if (toFilePath(encoded.targets[0]) !== "/Drive1/TV/") {
+            throw `FAIL: junction URL line: ${encoded.targets[0].href}`;
+        }
+
+        try {
+            await loadEntry("/Links/Bad.junction");
+            throw `FAIL: junction parse error`;
+        } catch (e) {
+            if (!(e instanceof JunctionParseError) || (e.line !== 3) || !e.message.startsWith("/Links/Bad.junction:3:")) {
+                throw e;
+            }
+        }
+    }, memoryTree);
+});
+
+Deno.test("memory-junction-write", async function () {
+    const memoryTree: MemoryTree = {
+        "Drive1/": { "TV/": {} },
+        "Drive2/": { "TV/": {} },
+        "Drive3/": { "TV/": {} },
+        "Drive|5/": { "TV/": {} },
+        "Links/": {},
+    };
+    await withMemory(async () => {
+        const path = "/Links/TV.junction";
+        const invalid: [string, Parameters<typeof writeJunction>[1]][] = [
+            ["missing", { targets: ["/Drive4/TV/"] }],
+            ["folder without slash", { targets: ["/Drive1/TV"] }],
+            ["duplicate", { targets: ["/Drive1/TV/", "/Drive1/TV/"] }],
+        ];
+        for (const [problem, contents] of invalid) {
+            try {
+                await writeJunction(path, contents);
+                throw `FAIL: writeJunction ${problem}`;
+            } catch (e) {
+                if (!(e instanceof JunctionValidationError)) {
+                    throw e;
+                }
+            }
+        }
+        if (await exists(path)) {
+            throw `FAIL: writeJunction wrote an invalid junction`;
+        }
+
+        await writeJunction(path, { type: "OPTIONAL", targets: ["/Drive1/TV/", "/Drive4/TV/"] });
+        await addJunctionTarget(path, { url: new URL("file:///Drive2/TV/"), priority: 1, exclude: ["*.nfo"] });
+        await removeJunctionTarget(path, "/Drive4/TV/");
+        await replaceJunctionTarget(path, "/Drive1/TV/", "/Drive3/TV/");
+
+        const text = await readTextFile(path);
+        if (text !== "OPTIONAL\nfile:///Drive2/TV/ | priority=1 exclude=*.nfo\nfile:///Drive3/TV/\n") {
+            throw `FAIL: junction text: ${text}`;
+        }
+
+        const junction = await readJunction(path);
+        if ((junction.targets.length !== 2) || (junction.targets[0].exclude?.[0] !== "*.nfo")) {
+            throw `FAIL: readJunction: ${JSON.stringify(junction)}`;
+        }
+
+        // "|" separates the modifiers, so it's encoded in paths
+        const barPath = "/Links/Bar.junction";
+        await writeJunction(barPath, { targets: [{ url: new URL("file:///Drive|5/TV/"), priority: 2 }] });
+        const barText = await readTextFile(barPath);
+        if (barText !== "REQUIRED\nfile:///Drive%7C5/TV/ | priority=2\n") {
+            throw `FAIL: junction "|" text: ${barText}`;
+        }
+        const bar = await readJunction(barPath);
+        if ((toFilePath(bar.targets[0].url) !== "/Drive|5/TV/") || (bar.targets[0].priority !== 2)) {
+            throw `FAIL: junction "|" round trip: ${JSON.stringify(bar)}`;
+        }
+    }, memoryTree);
+});
+
+Deno.test("memory-junction-cycles", async function () {
+    const memoryTree: MemoryTree = {
+        "A/": { "Loop.junction": "/B/", "Up.junction": "/A/", "Rose.mp4": "" },
+        "B/": { "Back.junction": "/A/" },
+        "Chain/": {
+            "1/": { "Next.junction": "/Chain/2/" },
+            "2/": { "Next.junction": "/Chain/3/" },
+            "3/": { "Rose.mp4": "" },
+        },
+    };
+    await withMemory(async () => {
+        const names = (entries: { name: string }[]) => entries.map(entry => entry.name).sort().join(",");
+
+        const flagged = await loadEntry("/A/", { cycles: "flag" });
+        const children = await flagged.children();
+        const up = children.find(child => child.name === "Up");
+        if ((names(children) !== "Loop,Rose,Up") || !(up?.error instanceof JunctionCycleError) || ((await up.children()).length !== 0)) {
+            throw `FAIL: flagged cycle: ${names(children)}`;
+        }
+
+        const loop = children.find(child => child.name === "Loop")!;
+        const back = (await loop.children()).find(child => child.name === "Back");
+        if (!(back?.error instanceof JunctionCycleError) || (back.error.repeated.href !== "file:///A/")) {
+            throw `FAIL: flagged cycle through another junction`;
+        }
+
+        try {
+            await (await loadEntry("/A/")).children();
+            throw `FAIL: cycle error`;
+        } catch (e) {
+            if (!(e instanceof JunctionCycleError)) {
+                throw e;
+            }
+        }
+
+        const chain = await loadEntry("/Chain/1/", { maxJunctionDepth: 1 });
+        const [next] = await chain.children();
+        if (next.junctionDepth !== 1) {
+            throw `FAIL: junction depth: ${next.junctionDepth}`;
+        }
+        try {
+            await next.children();
+            throw `FAIL: depth error`;
+        } catch (e) {
+            if (!(e instanceof JunctionDepthError)) {
+                throw e;
+            }
+        }
+    }, memoryTree);
+});
+
+Deno.test("memory-junction-conflicts", async function () {
+    const memoryTree: MemoryTree = {
+        "Drive1/": { "TV/": { "Rose.mp4": { data: "old but long", mtime: "2005-03-26T19:00:00Z" }, "Dalek.mp4": "" } },
+        "Drive2/": { "TV/": { "Rose.mp4": { data: "new", mtime: "2023-11-25T18:30:00Z" } } },
+        "TV.junction": "REQUIRED\n/Drive1/TV/\n/Drive2/TV/",
+        "Largest.junction": "REQUIRED | conflicts=largest\n/Drive2/TV/\n/Drive1/TV/",
+    };
+    await withMemory(async () => {
+        const rose = async (path: string, options?: Parameters<typeof loadEntry>[1]) =>
+            (await (await loadEntry(path, options)).children()).find(child => child.name === "Rose")!;
+
+        const expected: [string, Parameters<typeof loadEntry>[1], string][] = [
+            ["/TV.junction", undefined, "/Drive1/TV/Rose.mp4"],
+            ["/TV.junction", { conflicts: "newest" }, "/Drive2/TV/Rose.mp4"],
+            ["/Largest.junction", { conflicts: "newest" }, "/Drive1/TV/Rose.mp4"],
+        ];
+        for (const [path, options, target] of expected) {
+            const entry = await rose(path, options);
+            if ((entry.target?.pathname !== target) || ((await entry.shadowed()).length !== 1)) {
+                throw `FAIL: conflict ${options?.conflicts}: ${entry.target?.pathname}`;
+            }
+        }
+
+        const reported = await rose("/TV.junction", { conflicts: "report" });
+        if ((reported.target !== undefined) || !(reported.conflict instanceof JunctionConflictError) || (reported.conflict.urls.length !== 2)) {
+            throw `FAIL: conflict report: ${reported.target}`;
+        }
+
+        const missing = createEntry({ name: "Rose", extension: "mp4" }, ["/Drive1/TV/Rose.mp4", "/Drive3/TV/Rose.mp4"]);
+        if ((await missing.shadowed()).length !== 0) {
+            throw `FAIL: missing files are not shadowed`;
+        }
+
+        const shadowed = await arrayFrom(findShadowedFiles(await loadEntry("/TV.junction")));
+        if ((shadowed.length !== 1) || (shadowed[0].path !== "Rose.mp4") || (shadowed[0].shadowed[0].pathname !== "/Drive2/TV/Rose.mp4")) {
+            throw `FAIL: findShadowedFiles: ${JSON.stringify(shadowed)}`;
+        }
+
+        // A reported conflict has no file in use
+        const conflicts = await arrayFrom(findShadowedFiles(await loadEntry("/TV.junction", { conflicts: "report" })));
+        if ((conflicts.length !== 1) || (conflicts[0].target !== undefined) || !(conflicts[0].conflict instanceof JunctionConflictError)) {
+            throw `FAIL: findShadowedFiles report: ${JSON.stringify(conflicts)}`;
+        }
+    }, memoryTree);
+});
+
+Deno.test("memory-sniff", async function () {
+    const ascii = (text: string) => Array.from(text, c => c.charCodeAt(0));
+    const ts = new Uint8Array(188 * 3);
+    ts[0] = ts[188] = ts[376] = 0x47;
+
+    const files: Record<string, [string | Uint8Array, string | undefined]> = {
+        "movie": [new Uint8Array([0, 0, 0, 0x20, ...ascii("ftypisom")]), "video/mp4"],
+        "song": [new Uint8Array([0, 0, 0, 0x20, ...ascii("ftypM4A ")]), "audio/m4a"],
+        "episode": [new Uint8Array([0, 0, 0, 0x20, ...ascii("ftypM4V ")]), "video/x-m4v"],
+        "stream.ts": [ts, "video/mp2t"],
+        "code.ts": ["export const x = 1;\n", "text/plain"],
+        "tagged": [new Uint8Array([...ascii("ID3"), 3, 0]), "audio/mpeg"],
+        "frame": [new Uint8Array([0xFF, 0xFB, 0x90, 0x00]), "audio/mpeg"],
+        "photo": [new Uint8Array([0xFF, 0xD8, 0xFF, 0xE0]), "image/jpeg"],
+        "image": [new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]), "image/png"],
+        "subtitles": ["\uFEFFWEBVTT\n\n00:00.000 --> 00:01.000\nHello", "text/vtt"],
+        "timed": ['<?xml version="1.0"?>\n<tt xmlns="http://www.w3.org/ns/ttml">', "application/ttml+xml"],
+        "feed": ['<?xml version="1.0"?>\n<rss>', "text/xml"],
+        "wide": [new Uint8Array([0xFF, 0xFE, ...Array.from(ascii("WEBVTT\n"), c => [c, 0]).flat()]), "text/vtt"],
+        "binary": [new Uint8Array([0, 1, 2, 3]), undefined],
+    };
+
+    const memoryTree: MemoryTree = { "Sniff/": Object.fromEntries(Object.entries(files).map(([name, [data]]) => [name, data])) };
+    await withMemory(async () => {
+        for (const [name, [, expected]] of Object.entries(files)) {
+            const actual = await sniffMimeType(`/Sniff/${name}`);
+            if (actual !== expected) {
+                throw `FAIL: sniff ${name}: Expected ${expected}, Actual ${actual}`;
+            }
+        }
+
+        const root = new Primary(await loadEntry("/Sniff/"));
+        const code = await root.resolve([{ name: "code", extension: "ts" }]);
+        if ((code?.mimetype !== "video/mp2t") || ((await code?.detectMimetype()) !== "text/plain")) {
+            throw `FAIL: detectMimetype: ${code?.mimetype}`;
+        }
+    }, memoryTree);
+});
+
+Deno.test("memory-text-encoding", async function () {
+    const latin = (text: string) => new Uint8Array(Array.from(text, c => c.charCodeAt(0)));
+    const utf16 = (text: string, bom: boolean) => new Uint8Array([...(bom ? [0xFF, 0xFE] : []), ...Array.from(text, c => [c.charCodeAt(0), 0]).flat()]);
+    const text = "Blåbærgrød på ø\n";
+
+    const files: Record<string, Uint8Array | string> = {
+        "utf8.da.srt": text,
+        "bom.da.srt": "\uFEFF" + text,
+        "latin.da.srt": latin(text),
+        "wide.da.srt": utf16(text, true),
+        "widenobom.da.srt": utf16(text, false),
+    };
+
+    const memoryTree: MemoryTree = { "Text/": files };
+    await withMemory(async () => {
+        for (const name of Object.keys(files)) {
+            const actual = await readTextFile(`/Text/${name}`);
+            if (actual !== text) {
+                throw `FAIL: readTextFile ${name}: ${actual}`;
+            }
+        }
+
+        const explicit = await readTextFile("/Text/utf8.da.srt", { encoding: "windows-1252" });
+        if (explicit !== "BlÃ¥bÃ¦rgrÃ¸d pÃ¥ Ã¸\n") {
+            throw `FAIL: readTextFile encoding option: ${explicit}`;
+        }
+    }, memoryTree);
+});
+
+Deno.test("memory-read-lines", async function () {
+    const text = "\uFEFFone\r\ntwø\rthree\n\nfïve";
+    const expected = [
+        { text: "one", number: 1, start: 3, end: 6, ending: "\r\n" },
+        { text: "twø", number: 2, start: 8, end: 12, ending: "\r" },
+        { text: "three", number: 3, start: 13, end: 18, ending: "\n" },
+        { text: "", number: 4, start: 19, end: 19, ending: "\n" },
+        { text: "fïve", number: 5, start: 20, end: 25, ending: "" },
+    ];
+
+    const memoryTree: MemoryTree = { "Lines/": { "lines.txt": text } };
+    await withMemory(async () => {
+        // Every chunk length splits the line endings and the multi-byte characters differently
+        for (let chunkLength = 1; chunkLength <= 28; ++chunkLength) {
+            const lines = await arrayFrom(readLines("/Lines/lines.txt", { chunkLength }));
+            if (JSON.stringify(lines) !== JSON.stringify(expected)) {
+                throw `FAIL: readLines chunkLength ${chunkLength}: ${JSON.stringify(lines)}`;
+            }
+        }
+
+        try {
+            await arrayFrom(readLines("/Lines/lines.txt", { start: 8, maxLineLength: 4 }));
+            throw `FAIL: readLines maxLineLength`;
+        } catch (e) {
+            if (!(e instanceof LineLengthError) || (e.number !== 2) || (e.start !== 13)) {
+                throw e;
+            }
+        }
+    }, memoryTree);
+});
+
+Deno.test("memory-streams", async function () {
+    // Counts the files that are open
+    class CountingFileSystem extends MemoryFileSystem {
+        openFiles = 0;
+
+        override async open(filePath: FilePath, options?: OpenOptions) {
+            const file = await super.open(filePath, options);
+            ++this.openFiles;
+            const close = file.close.bind(file);
+            file.close = () => {
+                --this.openFiles;
+                close();
+            };
+            return file;
+        }
+    }
+
+    const memory = new CountingFileSystem({ "Streams/": {} });
+    await withMemory(async () => {
+        const path = "/Streams/data.txt";
+        await new Response("0123456789").body!.pipeTo(writableStream(path));
+        if ((await readTextFile(path)) !== "0123456789") {
+            throw `FAIL: writableStream`;
+        }
+
+        const range = await new Response(readableStream(path, { start: 2, end: 5 })).text();
+        if (range !== "234") {
+            throw `FAIL: readableStream: ${range}`;
+        }
+
+        const reader = readableStream(path, { start: 0 }, 2).getReader();
+        await reader.read();
+        const opened = memory.openFiles;
+        await reader.cancel();
+        const closed = memory.openFiles;
+        if ((opened !== 1) || (closed !== 0)) {
+            throw `FAIL: readableStream cancel: ${opened} ${closed}`;
+        }
+    }, memory);
+});
+
+Deno.test("memory-watch", async function () {
+    await withMemory(async () => {
+        const watcher = watch("/Drive1/TV/", { exclude: ["*.tmp"], debounce: 10 });
+        const season = "/Drive1/TV/Doctor Who/Season 1/";
+
+        await writeTextFile(season + "Dalek.mp4", "Dalek");
+        await writeTextFile(season + "Dalek.tmp", "Temporary");
+        await writeTextFile(season + "Scratch.txt", "Scratch");
+        await remove(season + "Scratch.txt");
+        await rename(season + "Doctor Who - 01-01 Rose.txt", season + "Rose.txt");
+        await makeDirectory("/Drive1/TV/Torchwood/Season 1/");
+        await writeTextFile("/Drive2/elsewhere.txt", "Not watched");
+
+        const iterator = watcher[Symbol.asyncIterator]();
+        const first = (await iterator.next()).value as WatchEvent[];
+        const events = first.map(event => `${event.kind} ${decodeURIComponent(event.url.pathname)}${event.from ? " " + fileName(event.from).name : ""}`);
+        const expected = [
+            "created /Drive1/TV/Doctor Who/Season 1/Dalek.mp4",
+            "renamed /Drive1/TV/Doctor Who/Season 1/Rose.txt Doctor Who - 01-01 Rose",
+            "created /Drive1/TV/Torchwood/",
+            "created /Drive1/TV/Torchwood/Season 1/",
+        ];
+        if (events.join("\n") !== expected.join("\n")) {
+            throw `FAIL: watch: ${events}`;
+        }
+
+        await writeTextFile(season + "Dalek.mp4", "Dalek 2");
+        watcher.close();
+        const second = (await iterator.next()).value as WatchEvent[];
+        if ((second.length !== 1) || (second[0].kind !== "modified")) {
+            throw `FAIL: watch close: ${JSON.stringify(second)}`;
+        }
+
+        if (!(await iterator.next()).done) {
+            throw `FAIL: watch should finish after close`;
+        }
+    });
+});
+
+Deno.test("memory-temp", async function () {
+    await withMemory(async () => {
+        const file = await makeTempFile({ folder: "/Temp/", prefix: "download-", suffix: ".mp4" });
+        if (!file.pathname.startsWith("/Temp/download-") || !file.pathname.endsWith(".mp4") || !(await exists(file))) {
+            throw `FAIL: makeTempFile: ${file}`;
+        }
+
+        try {
+            await writeTextFile(file, "Replaced", { createNew: true });
+            throw `FAIL: createNew should not replace an existing file`;
+        } catch (e) {
+            if (!(e instanceof Deno.errors.AlreadyExists)) {
+                throw e;
+            }
+        }
+
+        let used: URL | undefined;
+        try {
+            await withTempFolder(async (folder) => {
+                used = folder;
+                await makeDirectory(new URL("Season%201/", folder));
+                await writeTextFile(new URL("Season%201/Rose.vtt", folder), "WEBVTT");
+                throw new Error("conversion failed");
+            }, { folder: "/Temp/" });
+        } catch (e) {
+            if ((e as Error).message !== "conversion failed") {
+                throw e;
+            }
+        }
+
+        if ((used === undefined) || !used.href.endsWith("/") || (await exists(used))) {
+            throw `FAIL: withTempFolder: ${used}`;
+        }
+
+        await removeTemp(file);
+        const remaining = await arrayFrom(directoryEntries("/Temp/"));
+        if (remaining.length !== 0) {
+            throw `FAIL: removeTemp: ${remaining}`;
+        }
+    });
+});
+
+Deno.test("memory-fetch-resume", async function () {
+    const data = "0123456789";
+    const requests: string[] = [];
+    const etag = "\"v1\"";
+    let rangeStart: number | undefined;
+    let contentType = "video/mp4";
+
+    // Serves ranges only when If-Range matches, starting at `rangeStart` if it is set
+    const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen() {} }, (request) => {
+        const range = request.headers.get("Range");
+        const ifRange = request.headers.get("If-Range");
+        requests.push(`${range} ${ifRange}`);
+        const headers = { "ETag": etag, "Content-Type": contentType };
+        if ((range !== null) && ((ifRange === null) || (ifRange === etag))) {
+            const start = rangeStart ?? parseInt(range.substring("bytes=".length), 10);
+            return new Response(data.substring(start), { status: 206, headers: { ...headers, "Content-Range": `bytes ${start}-9/10` } });
+        }
+        return new Response(data, { headers });
+    });
+    const url = `http://127.0.0.1:${server.addr.port}/Rose`;
+
+    try {
+        await withMemory(async () => {
+            const download = async (partial: string, validator: string, extension = "mp4") => {
+                requests.length = 0;
+                await writeTextFile(`/Downloads/Rose.${extension}.download`, partial);
+                await writeTextFile(`/Downloads/Rose.${extension}.download.validator`, validator);
+                const result = await fetchToFile(url, "/Downloads/", "Rose", "bin");
+                return { path: result.pathname, text: await readTextFile(result) };
+            };
+
+            // The rest of the file is requested for the same version of the file
+            const resumed = await download("0123", "\"v1\"");
+            if ((resumed.text !== data) || (resumed.path !== "/Downloads/Rose.mp4") || (requests.join() !== "bytes=4- \"v1\"")) {
+                throw `FAIL: resume: ${resumed.text} ${requests}`;
+            }
+            if (await exists("/Downloads/Rose.mp4.download.validator")) {
+                throw `FAIL: resume: validator not removed`;
+            }
+
+            // The server sends the whole file if the file has changed
+            const changed = await download("abcd", "\"v0\"");
+            if ((changed.text !== data) || (requests.join() !== "bytes=4- \"v0\"")) {
+                throw `FAIL: If-Range: ${changed.text} ${requests}`;
+            }
+
+            // A range that doesn't continue the partial file starts the download again
+            rangeStart = 2;
+            const misplaced = await download("0123", "\"v1\"");
+            rangeStart = undefined;
+            if ((misplaced.text !== data) || (requests.join("|") !== "bytes=4- \"v1\"|null null")) {
+                throw `FAIL: Content-Range: ${misplaced.text} ${requests}`;
+            }
+
+            // A partial file with a different extension is replaced, but other downloads are left alone
+            await writeTextFile("/Downloads/Rose.Extended.mp4.download", "Extended");
+            contentType = "text/plain";
+            const switched = await download("0123", "\"v1\"", "mp4");
+            contentType = "video/mp4";
+            if ((switched.text !== data) || !switched.path.endsWith("/Rose.txt") || (requests.join("|") !== "bytes=4- \"v1\"|null null")) {
+                throw `FAIL: extension switch: ${switched.path} ${requests}`;
+            }
+            if ((await exists("/Downloads/Rose.mp4.download")) || ((await readTextFile("/Downloads/Rose.Extended.mp4.download")) !== "Extended")) {
+                throw `FAIL: extension switch: partial files`;
+            }
+        }, { "Downloads/": {} });
+    } finally {
+        await server.shutdown();
+    }
+});
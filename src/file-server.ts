@@ -0,0 +1,280 @@
+// file-server.ts serves the junction-based view of the file system over HTTP
+// so that the pages created by the media generator can refer to media by URL path
+// instead of by file:// URL, and so that browsers can seek within large video files.
+
+// The server supports:
+//      GET and HEAD
+//      Range requests (single ranges and multipart/byteranges)
+//      Conditional requests using ETag/If-None-Match, If-Modified-Since, and If-Range
+
+// Folders are served by their index.html file if they contain one.
+// Requests for folders that do not end with a slash are redirected to the URL with a slash.
+
+import { FileStatus, fileName, readableStream, resolveLink, stat, toReadableStream } from "./file.ts";
+import { formatContentRange, multipartByteRanges, parseRangeHeader } from "./http-range.ts";
+import type { Entry } from "./junction.ts";
+import { detectMimetype } from "./satellite.ts";
+
+const INDEX_NAME = "index.html";
+const DEFAULT_MIME_TYPE = "application/octet-stream";
+
+/** Options for FileServer.serve */
+export interface FileServerOptions {
+    /** The port to listen on. The default is 8000. */
+    port?: number;
+
+    /** The hostname to listen on. The default is "0.0.0.0". */
+    hostname?: string;
+
+    /** A signal that shuts the server down when aborted */
+    signal?: AbortSignal;
+}
+
+/**
+ * Creates a strong entity tag from the size and modification time of a file,
+ * and the inode where the file system provides one.
+ */
+export function entityTag(status: FileStatus): string {
+    const parts = [status.size, status.mtime?.getTime() ?? 0];
+    if (status.inode !== undefined) {
+        parts.push(status.inode);
+    }
+    return `"${parts.map(part => part.toString(16)).join("-")}"`;
+}
+
+/**
+ * Returns true if the value of an If-None-Match or If-Range header matches the entity tag.
+ * If-None-Match uses weak comparison so weak tags are allowed.
+ */
+function matchesEntityTag(header: string, tag: string, weak: boolean): boolean {
+    return header.split(",").some(value => {
+        value = value.trim();
+        if (value === "*") {
+            return true;
+        }
+        if (value.startsWith("W/")) {
+            if (!weak) {
+                return false;
+            }
+            value = value.substring(2);
+        }
+        return value === tag;
+    });
+}
+
+/** HTTP dates have a resolution of one second */
+function toHTTPSeconds(date: Date): number {
+    return Math.floor(date.getTime() / 1000);
+}
+
+/** Returns true if the file has not been modified since the date in the header */
+function notModifiedSince(header: string, mtime: Date | undefined): boolean {
+    const since = Date.parse(header);
+    if ((mtime === undefined) || isNaN(since)) {
+        return false;
+    }
+    return toHTTPSeconds(mtime) <= Math.floor(since / 1000);
+}
+
+/** Returns true if the date in an If-Range header is exactly the modification time of the file */
+function matchesModified(header: string, mtime: Date | undefined): boolean {
+    const date = Date.parse(header);
+    if ((mtime === undefined) || isNaN(date)) {
+        return false;
+    }
+    return toHTTPSeconds(mtime) === Math.floor(date / 1000);
+}
+
+/**
+ * Serves the junction-based view of the file system over HTTP.
+ *
+ * The path of each request URL is resolved against the root entry one name at a time,
+ * so any Entry in the tree can be served, including entries that combine
+ * several folders or that are renamed by a junction file.
+ */
+export class FileServer {
+    root: Entry;
+
+    constructor(root: Entry) {
+        this.root = root;
+    }
+
+    /**
+     * Finds the entry for a URL path or returns undefined if there isn't one.
+     * Override to customize how URLs map to entries.
+     *
+     * @param pathname The path from the request URL (percent-encoded)
+     */
+    async resolve(pathname: string): Promise<Entry | undefined> {
+        const names = pathname.split("/").filter(name => name !== "").map(decodeURIComponent);
+
+        let current = this.root;
+        for (const [index, name] of names.entries()) {
+            if ((name === ".") || (name === "..") || name.includes("/")) {
+                return undefined;
+            }
+
+            // Folder names don't have extensions, so a name followed by "/" is only compared as a folder name
+            // and a final name without "/" can be a file or a folder with a "." in its name
+            const children = await current.children();
+            const folderPiece = fileName(name + "/");
+            const isFile = (index === names.length - 1) && !pathname.endsWith("/");
+            const next = isFile ?
+                (children.find(child => child.matches(fileName(name))) ?? children.find(child => child.isFolder && child.matches(folderPiece))) :
+                children.find(child => child.matches(folderPiece));
+            if (next === undefined) {
+                return undefined;
+            }
+            current = next;
+        }
+        return current;
+    }
+
+    /**
+     * Returns the Content-Type for an entry.
+     * Uses the extension, or the contents of the file if the extension is missing or ambiguous.
+     * Override to customize the types sent to the client.
+     */
+    async mimetype(entry: Entry): Promise<string> {
+        return (await detectMimetype(entry)) || DEFAULT_MIME_TYPE;
+    }
+
+    /** Responds to a single HTTP request */
+    async handle(request: Request): Promise<Response> {
+        const method = request.method;
+        if ((method !== "GET") && (method !== "HEAD")) {
+            return new Response(null, { status: 405, headers: { "Allow": "GET, HEAD" } });
+        }
+
+        const url = new URL(request.url);
+        let entry: Entry | undefined;
+        try {
+            entry = await this.resolve(url.pathname);
+        } catch (e) {
+            if (!(e instanceof URIError) && !(e instanceof Deno.errors.NotFound)) {
+                throw e;
+            }
+        }
+
+        if (entry === undefined) {
+            return new Response(null, { status: 404 });
+        }
+
+        if (entry.isFolder) {
+            if (!url.pathname.endsWith("/")) {
+                const location = new URL(url.pathname + "/" + url.search, url);
+                return new Response(null, { status: 301, headers: { "Location": location.href } });
+            }
+
+            const index = (await entry.children()).find(child => child.matches(fileName(INDEX_NAME)));
+            if ((index === undefined) || index.isFolder) {
+                return new Response(null, { status: 404 });
+            }
+            entry = index;
+        }
+
+        return await this.handleFile(request, entry);
+    }
+
+    /** Responds to a request for an entry that is a file */
+    async handleFile(request: Request, entry: Entry): Promise<Response> {
+        let target = entry.target;
+        if (target === undefined) {
+            // More than one target contains the file and the junction asks for conflicts to be reported
+            return new Response(null, { status: 409 });
+        }
+
+        let status: FileStatus;
+        try {
+            status = await stat(target);
+            if (status.kind === "symlink") {
+                // Serve the file that the link points to
+                target = await resolveLink(target);
+                if (target === undefined) {
+                    return new Response(null, { status: 404 });
+                }
+                status = await stat(target);
+            }
+        } catch (e) {
+            if (e instanceof Deno.errors.NotFound) {
+                return new Response(null, { status: 404 });
+            }
+            throw e;
+        }
+
+        const size = status.size;
+        const tag = entityTag(status);
+        const mimetype = await this.mimetype(entry);
+
+        const headers = new Headers({
+            "Accept-Ranges": "bytes",
+            "ETag": tag,
+        });
+        if (status.mtime !== undefined) {
+            headers.set("Last-Modified", status.mtime.toUTCString());
+        }
+
+        // If-None-Match takes precedence over If-Modified-Since
+        const ifNoneMatch = request.headers.get("If-None-Match");
+        const ifModifiedSince = request.headers.get("If-Modified-Since");
+        const notModified = (ifNoneMatch !== null) ?
+            matchesEntityTag(ifNoneMatch, tag, true) :
+            ((ifModifiedSince !== null) && notModifiedSince(ifModifiedSince, status.mtime));
+        if (notModified) {
+            return new Response(null, { status: 304, headers });
+        }
+
+        let ranges = undefined;
+        const range = request.headers.get("Range");
+        if (range !== null) {
+            // If-Range asks for the whole file if the file has changed
+            const ifRange = request.headers.get("If-Range");
+            const current = (ifRange === null) ||
+                (ifRange.trim().startsWith("\"") ? matchesEntityTag(ifRange, tag, false) : matchesModified(ifRange, status.mtime));
+            if (current) {
+                ranges = parseRangeHeader(range, size);
+            }
+        }
+
+        const isHead = (request.method === "HEAD");
+
+        if (ranges === undefined) {
+            headers.set("Content-Type", mimetype);
+            headers.set("Content-Length", `${size}`);
+            const body = isHead ? null : readableStream(target, { start: 0, end: size });
+            return new Response(body, { status: 200, headers });
+        }
+
+        if (ranges.length === 0) {
+            headers.set("Content-Range", formatContentRange(undefined, size));
+            return new Response(null, { status: 416, headers });
+        }
+
+        if (ranges.length === 1) {
+            const [range] = ranges;
+            headers.set("Content-Type", mimetype);
+            headers.set("Content-Length", `${range.end - range.start}`);
+            headers.set("Content-Range", formatContentRange(range, size));
+            const body = isHead ? null : readableStream(target, range);
+            return new Response(body, { status: 206, headers });
+        }
+
+        const multipart = multipartByteRanges(target, ranges, size, mimetype);
+        headers.set("Content-Type", multipart.contentType);
+        headers.set("Content-Length", `${multipart.contentLength}`);
+        const body = isHead ? null : toReadableStream(multipart.body);
+        return new Response(body, { status: 206, headers });
+    }
+
+    /**
+     * Starts listening for HTTP requests.
+     * Returns the server object from Deno.serve; await its `finished` promise to wait for shutdown.
+     */
+    serve(options?: FileServerOptions) {
+        return Deno.serve({
+            port: options?.port ?? 8000,
+            hostname: options?.hostname ?? "0.0.0.0",
+            signal: options?.signal,
+        }, (request) => this.handle(request));
+    }
+}
@@ -0,0 +1,124 @@
+import { MemoryFileSystem } from "./file-memory.ts";
+import { setFileSystem } from "./file.ts";
+import { FileServer } from "./file-server.ts";
+import { loadEntry } from "./junction.ts";
+
+const tree = {
+    "Drive1/": {
+        "Season 1/": {
+            "Rose.mp4": { data: "0123456789", mtime: "2005-03-26T19:00:00Z" },
+        },
+        "Mr. Robot/": {
+            "ep.txt": "eps1.0_hellofriend.mov",
+        },
+    },
+    "Drive2/": {
+        "index.html": "<h1>Media</h1>",
+    },
+    "Site.junction": "REQUIRED\nfile:///Drive1/\nfile:///Drive2/",
+};
+
+async function withServer(fn: (server: FileServer) => Promise<void>) {
+    const previous = setFileSystem(new MemoryFileSystem(tree));
+    try {
+        await fn(new FileServer(await loadEntry("/Site.junction")));
+    } finally {
+        setFileSystem(previous);
+    }
+}
+
+function request(path: string, headers?: Record<string, string>, method = "GET") {
+    return new Request(new URL(path, "http://localhost/"), { method, headers });
+}
+
+Deno.test("file-server", async function () {
+    await withServer(async (server) => {
+        const path = "/Season%201/Rose.mp4";
+
+        const full = await server.handle(request(path));
+        if ((full.status !== 200) || (await full.text()) !== "0123456789" || (full.headers.get("Content-Type") !== "video/mp4")) {
+            throw `FAIL: GET: ${full.status}`;
+        }
+
+        const head = await server.handle(request(path, {}, "HEAD"));
+        if ((head.status !== 200) || (head.body !== null) || (head.headers.get("Content-Length") !== "10")) {
+            throw `FAIL: HEAD: ${head.status}`;
+        }
+
+        const partial = await server.handle(request(path, { "Range": "bytes=2-4" }));
+        if ((partial.status !== 206) || (await partial.text()) !== "234" || (partial.headers.get("Content-Range") !== "bytes 2-4/10")) {
+            throw `FAIL: Range: ${partial.status}`;
+        }
+
+        const unsatisfiable = await server.handle(request(path, { "Range": "bytes=20-" }));
+        if ((unsatisfiable.status !== 416) || (unsatisfiable.headers.get("Content-Range") !== "bytes */10")) {
+            throw `FAIL: 416: ${unsatisfiable.status}`;
+        }
+
+        const multipart = await server.handle(request(path, { "Range": "bytes=0-0,-1" }));
+        const body = await multipart.text();
+        if ((multipart.status !== 206) || !body.includes("Content-Range: bytes 9-9/10\r\n\r\n9\r\n")) {
+            throw `FAIL: multipart: ${body}`;
+        }
+
+        const tag = full.headers.get("ETag")!;
+        const notModified = await server.handle(request(path, { "If-None-Match": `W/${tag}` }));
+        if (notModified.status !== 304) {
+            throw `FAIL: If-None-Match: ${notModified.status}`;
+        }
+
+        const since = await server.handle(request(path, { "If-Modified-Since": "Sat, 26 Mar 2005 19:00:00 GMT" }));
+        const before = await server.handle(request(path, { "If-Modified-Since": "Sat, 26 Mar 2005 18:59:59 GMT" }));
+        if ((since.status !== 304) || (before.status !== 200)) {
+            throw `FAIL: If-Modified-Since: ${since.status} ${before.status}`;
+        }
+        await before.body?.cancel();
+
+        const changed = await server.handle(request(path, { "Range": "bytes=2-4", "If-Range": "\"other\"" }));
+        if (changed.status !== 200) {
+            throw `FAIL: If-Range: ${changed.status}`;
+        }
+        await changed.body?.cancel();
+
+        const sameDate = await server.handle(request(path, { "Range": "bytes=2-4", "If-Range": "Sat, 26 Mar 2005 19:00:00 GMT" }));
+        const laterDate = await server.handle(request(path, { "Range": "bytes=2-4", "If-Range": "Sat, 26 Mar 2005 19:00:01 GMT" }));
+        if ((sameDate.status !== 206) || (laterDate.status !== 200)) {
+            throw `FAIL: If-Range date: ${sameDate.status} ${laterDate.status}`;
+        }
+        await sameDate.body?.cancel();
+        await laterDate.body?.cancel();
+    });
+});
+
+Deno.test("file-server-folders", async function () {
+    await withServer(async (server) => {
+        const redirect = await server.handle(request("/Season%201"));
+        if ((redirect.status !== 301) || (redirect.headers.get("Location") !== "http://localhost/Season%201/")) {
+            throw `FAIL: redirect: ${redirect.status}`;
+        }
+
+        // Folder names can contain "." without it starting an extension
+        const dotted = await server.handle(request("/Mr.%20Robot"));
+        const episode = await server.handle(request("/Mr.%20Robot/ep.txt"));
+        if ((dotted.status !== 301) || (await episode.text()) !== "eps1.0_hellofriend.mov") {
+            throw `FAIL: dotted folder: ${dotted.status} ${episode.status}`;
+        }
+
+        const index = await server.handle(request("/"));
+        if ((await index.text()) !== "<h1>Media</h1>") {
+            throw `FAIL: index.html: ${index.status}`;
+        }
+
+        for (const path of ["/Season%201/", "/Missing.mp4", "/Season%201/%E0%A4%A.mp4"]) {
+            const response = await server.handle(request(path));
+            if (response.status !== 404) {
+                throw `FAIL: 404 ${path}: ${response.status}`;
+            }
+        }
+
+        const post = await server.handle(request("/", {}, "POST"));
+        if (post.status !== 405) {
+            throw `FAIL: 405: ${post.status}`;
+        }
+    });
+});
@@ -1,6 +1,7 @@
 // Requires: [Deno]
 // Supports: [Typescript]
-import { generable } from "./utility.ts";
+import { AsyncList, AsyncPromiseCancelable, delay, PromiseCancelable } from "./promise.ts";
+import { AnyIterable, arrayFrom, dataToHex, generable } from "./utility.ts";
 
 // Callionica's minimal API for accessing the file system built on top of Deno's built-in, low-level file API
 // Scroll past the code for more detailed documentation.
@@ -32,82 +33,462 @@ function fetch_(input: Request | URL | string, init?: RequestInit): Promise<Resp
 
 export { fetch_ as fetch };
 
+/** How the output of a child process is handled: collected, streamed to a callback, inherited, or discarded */
+export type ProcessOutput = "collect" | "inherit" | "null" | ((data: Uint8Array) => void);
+
+/** Text or data to write to the input of a child process */
+export type ProcessInputData = { text: string } | Uint8Array | AnyIterable<Uint8Array>;
+
+/** The input of a child process: data to write, inherited from this process, or nothing */
+export type ProcessInput = "inherit" | "null" | ProcessInputData;
+
+/** The default maximum number of bytes collected from stdout or stderr */
+export const PROCESS_MAXIMUM_OUTPUT_LENGTH = 16 * 1024 * 1024; // 16 MB
+
+export interface ProcessOptions {
+    /** The working directory of the process */
+    cwd?: FilePath;
+
+    /** Environment variables to set for the process */
+    env?: Record<string, string>;
+
+    /** If true, the process only receives the variables in `env` */
+    clearEnv?: boolean;
+
+    /** The input of the process. The default is "null" (except for spawn and respawn which inherit stdin). */
+    stdin?: ProcessInput;
+
+    /** The default is "collect" (except for spawn and respawn which inherit the output) */
+    stdout?: ProcessOutput;
+
+    /** The default is "collect" (except for spawn and respawn which inherit the output) */
+    stderr?: ProcessOutput;
+
+    /**
+     * The maximum number of bytes collected from stdout or stderr.
+     * If a process produces more, it is killed and the promise is rejected with ProcessOutputLimitError.
+     */
+    maxOutputLength?: number;
+
+    /** The number of milliseconds after which the process is killed */
+    timeout?: number;
+}
+
+export interface PipelineOptions extends ProcessOptions {
+    /**
+     * If true, the pipeline only succeeds if every application succeeds, and the exit code is the exit code
+     * of the last application that failed, like `set -o pipefail` in a shell. The default is false.
+     */
+    pipefail?: boolean;
+}
+
+/** The result of running a process */
+export interface ProcessResult {
+    /** The exit code */
+    code: number;
+
+    /** True if the process exited with code 0 */
+    success: boolean;
+
+    /** The signal that terminated the process, if any */
+    signal?: string;
+
+    /** The collected output (empty if stdout was not collected) */
+    stdout: Uint8Array;
+
+    /** The collected error output (empty if stderr was not collected) */
+    stderr: Uint8Array;
+
+    /** True if the process was killed because the timeout expired */
+    timedOut: boolean;
+
+    /** True if the process was killed because the promise was canceled */
+    canceled: boolean;
+}
+
+/** Thrown when a process fails in an API that expects success */
+export class ProcessError extends Error {
+    command: string;
+    result: ProcessResult;
+
+    constructor(command: string, result: ProcessResult) {
+        const stderr = new TextDecoder().decode(result.stderr).trimEnd();
+        const reason = result.timedOut ? "timed out" : result.canceled ? "was canceled" : `exited with code ${result.code}`;
+        super(stderr || `${command} ${reason}`);
+        this.name = "ProcessError";
+        this.command = command;
+        this.result = result;
+    }
+}
+
+/** Thrown when a process produces more output than allowed by `maxOutputLength` */
+export class ProcessOutputLimitError extends Error {
+    command: string;
+    maxOutputLength: number;
+
+    constructor(command: string, maxOutputLength: number) {
+        super(`${command} produced more than ${maxOutputLength} bytes of output`);
+        this.name = "ProcessOutputLimitError";
+        this.command = command;
+        this.maxOutputLength = maxOutputLength;
+    }
+}
+
+function toPipeMode(value: ProcessOutput | ProcessInput): "piped" | "inherit" | "null" {
+    return ((value === "inherit") || (value === "null")) ? value as "inherit" | "null" : "piped";
+}
+
+function concatChunks(chunks: Uint8Array[], length: number): Uint8Array {
+    const result = new Uint8Array(length);
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return result;
+}
+
 /**
- * Executes an application and returns the output if successful
- * or throws an error on failure.
+ * Runs an application and returns a cancelable promise for the result.
+ * 
+ * The promise resolves when the process exits whatever its exit code,
+ * so check `success` or `code` on the result.
+ * 
+ * Canceling the promise kills the process and resolves the promise with `canceled` set.
+ * The same happens with `timedOut` set when the timeout expires.
  * 
  * @param command The application to run
  * @param commandArguments The arguments to provide to the application
+ * @param options The working directory, environment, input, output handling, and timeout
+ */
+export function run(command: string, commandArguments: string[] = [], options?: ProcessOptions): PromiseCancelable<ProcessResult> {
+    return pipeline([[command, ...commandArguments]], options);
+}
+
+/**
+ * Runs a pipeline of applications where the output of each application is the input of the next,
+ * like `a | b | c` in a shell, but without a shell. Each command is an array containing
+ * the application followed by its arguments, so arguments are never interpreted or expanded.
+ * 
+ * `stdin` is the input of the first application and `stdout` is the output of the last.
+ * `stderr` applies to every application; collected error output is concatenated.
+ * As in a shell, the exit code of the pipeline is the exit code of the last application
+ * unless `pipefail` is set.
+ * 
+ * Canceling the promise or reaching the timeout kills every application in the pipeline.
+ * So does a failure to write `stdin` to the first application.
+ * 
+ * @param commands The applications and their arguments
+ * @param options The working directory, environment, input, output handling, timeout, and pipefail
  */
-export async function execute(command: string, ...commandArguments: string[]): Promise<string> {
-    // Use piped to allow us to read the output
-    const p = Deno.run({
-        cmd: [command, ...commandArguments],
-        stdout: "piped",
-        stderr: "piped",
-    });
+export function pipeline(commands: string[][], options?: PipelineOptions): PromiseCancelable<ProcessResult> {
+    const promise = new AsyncPromiseCancelable<ProcessResult>();
+
+    const stdin = options?.stdin ?? "null";
+    const stdout = options?.stdout ?? "collect";
+    const stderr = options?.stderr ?? "collect";
+    const maxOutputLength = options?.maxOutputLength ?? PROCESS_MAXIMUM_OUTPUT_LENGTH;
+    const name = commands.map(([command]) => command).join(" | ");
+
+    if ((commands.length === 0) || commands.some(argv => argv.length === 0)) {
+        promise.reject(new TypeError(`Each command in a pipeline needs an application`));
+        return promise;
+    }
+
+    const last = commands.length - 1;
+    const children: Deno.ChildProcess[] = [];
+    const exited: boolean[] = [];
+    let timedOut = false;
+    let canceled = false;
+
+    function kill() {
+        children.forEach((child, index) => {
+            if (!exited[index]) {
+                try {
+                    child.kill("SIGTERM");
+                } catch {
+                    // The process has already exited
+                }
+            }
+        });
+    }
 
     try {
-        // Wait for process to finish
-        const { success } = await p.status();
+        for (const [index, [command, ...commandArguments]] of commands.entries()) {
+            children.push(new Deno.Command(command, {
+                args: commandArguments,
+                cwd: (options?.cwd !== undefined) ? toFilePath(options.cwd) : undefined,
+                env: options?.env,
+                clearEnv: options?.clearEnv,
+                stdin: (index === 0) ? toPipeMode(stdin) : "piped",
+                stdout: (index === last) ? toPipeMode(stdout) : "piped",
+                stderr: toPipeMode(stderr),
+            }).spawn());
+        }
+    } catch (e) {
+        kill();
+        promise.reject(e);
+        return promise;
+    }
+
+    async function feed(input: ProcessInputData) {
+        const writer = children[0].stdin.getWriter();
+        try {
+            if ("text" in input) {
+                await writer.write(new TextEncoder().encode(input.text));
+            } else if (input instanceof Uint8Array) {
+                await writer.write(input);
+            } else {
+                for await (const chunk of input) {
+                    await writer.write(chunk);
+                }
+            }
+            await writer.close();
+        } catch (e) {
+            // The process doesn't have to read all its input
+            if (!(e instanceof Deno.errors.BrokenPipe) && !exited[0]) {
+                kill();
+                throw e;
+            }
+        } finally {
+            writer.releaseLock();
+        }
+    }
 
-        if (!success) {
-            const message = new TextDecoder().decode(await p.stderrOutput());
-            throw new Error(message);
+    async function connect(index: number) {
+        try {
+            await children[index].stdout.pipeTo(children[index + 1].stdin);
+        } catch {
+            // The next process doesn't have to read all its input
         }
+    }
 
-        // Close stderr if not already closed in the failure case
-        p.stderr?.close();
+    async function read(stream: ReadableStream<Uint8Array>, output: ProcessOutput): Promise<Uint8Array> {
+        const chunks: Uint8Array[] = [];
+        let length = 0;
+        for await (const chunk of stream) {
+            if (typeof output === "function") {
+                output(chunk);
+                continue;
+            }
 
-        // Return the output
-        return new TextDecoder().decode(await p.output()).trimEnd();
-    } finally {
-        p.close();
+            length += chunk.length;
+            if (length > maxOutputLength) {
+                kill();
+                throw new ProcessOutputLimitError(name, maxOutputLength);
+            }
+            chunks.push(chunk);
+        }
+        return concatChunks(chunks, length);
+    }
+
+    const empty = new Uint8Array(0);
+
+    async function _pipeline(): Promise<ProcessResult> {
+        const timer = (options?.timeout !== undefined) ? setTimeout(() => { timedOut = true; kill(); }, options.timeout) : undefined;
+        try {
+            const [statuses, stdoutData, stderrData] = await Promise.all([
+                Promise.all(children.map((child, index) => child.status.then(status => { exited[index] = true; return status; }))),
+                (toPipeMode(stdout) === "piped") ? read(children[last].stdout, stdout) : empty,
+                (toPipeMode(stderr) === "piped") ? Promise.all(children.map(child => read(child.stderr, stderr))) : [],
+                (toPipeMode(stdin) === "piped") ? feed(stdin as ProcessInputData) : undefined,
+                Promise.all(children.slice(0, last).map((_, index) => connect(index))),
+            ]);
+
+            const failed = options?.pipefail ? statuses.findLast(status => !status.success) : undefined;
+            const status = failed ?? statuses[last];
+            return {
+                code: status.code,
+                success: status.success,
+                signal: status.signal ?? undefined,
+                stdout: stdoutData,
+                stderr: concatChunks(stderrData, stderrData.reduce((total, data) => total + data.length, 0)),
+                timedOut,
+                canceled,
+            };
+        } finally {
+            clearTimeout(timer);
+        }
     }
 
+    promise.cancel = () => {
+        if (children.some((_, index) => !exited[index])) {
+            canceled = true;
+            kill();
+        }
+    };
+
+    _pipeline().then(promise.resolve, promise.reject);
+    return promise;
+}
+
+/**
+ * Executes a pipeline of applications (see `pipeline`) and returns the output
+ * of the last application if the pipeline succeeds or throws a ProcessError on failure.
+ * 
+ * @param commands The applications and their arguments
+ * @param options The working directory, environment, input, timeout, and pipefail
+ */
+export function executePipeline(commands: string[][], options?: PipelineOptions): PromiseCancelable<string> {
+    return toOutput(commands.map(([command]) => command).join(" | "), pipeline(commands, { ...options, stdout: "collect", stderr: "collect" }));
+}
+
+/** Converts a process result into the text of its output, or a ProcessError */
+function toOutput(command: string, process: PromiseCancelable<ProcessResult>): PromiseCancelable<string> {
+    const promise = new AsyncPromiseCancelable<string>();
+    promise.cancel = process.cancel;
+    process.then(result => {
+        if (!result.success) {
+            throw new ProcessError(command, result);
+        }
+        return new TextDecoder().decode(result.stdout).trimEnd();
+    }).then(promise.resolve, promise.reject);
+    return promise;
 }
 
-export async function spawn(command: string, ...commandArguments: string[]): Promise<boolean> {
-    const p = Deno.run({
-        cmd: [command, ...commandArguments]
-    });
+type ProcessArguments = [...commandArguments: string[]] | [commandArguments: string[], options?: ProcessOptions];
 
-    try {
-        // Wait for process to finish
-        const { success } = await p.status();
-        return success;
-    } finally {
-        p.close();
+function toProcessArguments<Options>(rest: (string | string[] | Options | undefined)[]): [string[], Options | undefined] {
+    if (Array.isArray(rest[0])) {
+        return [rest[0], rest[1] as Options | undefined];
     }
+    return [rest as string[], undefined];
 }
 
-export async function respawn(command: string, ...commandArguments: string[]): Promise<void> {
-    while (true) {
-        const success = await spawn(command, ...commandArguments);
-        if (success) {
-            return;
+/**
+ * Executes an application and returns the output if successful
+ * or throws an error on failure.
+ * 
+ * Canceling the promise kills the process and rejects the promise with a ProcessError.
+ * 
+ * @param command The application to run
+ * @param commandArguments The arguments to provide to the application
+ *  (either as separate arguments or as an array followed by ProcessOptions)
+ */
+export function execute(command: string, ...commandArguments: string[]): PromiseCancelable<string>;
+export function execute(command: string, commandArguments: string[], options?: ProcessOptions): PromiseCancelable<string>;
+export function execute(command: string, ...rest: ProcessArguments): PromiseCancelable<string> {
+    const [commandArguments, options] = toProcessArguments<ProcessOptions>(rest);
+    return toOutput(command, run(command, commandArguments, { ...options, stdout: "collect", stderr: "collect" }));
+}
+
+/**
+ * Runs an application that shares this process's input and output
+ * and returns whether the application succeeded.
+ * 
+ * Canceling the promise kills the process and resolves the promise with false.
+ * 
+ * @param command The application to run
+ * @param commandArguments The arguments to provide to the application
+ *  (either as separate arguments or as an array followed by ProcessOptions)
+ */
+export function spawn(command: string, ...commandArguments: string[]): PromiseCancelable<boolean>;
+export function spawn(command: string, commandArguments: string[], options?: ProcessOptions): PromiseCancelable<boolean>;
+export function spawn(command: string, ...rest: ProcessArguments): PromiseCancelable<boolean> {
+    const [commandArguments, options] = toProcessArguments<ProcessOptions>(rest);
+    const process = run(command, commandArguments, { stdin: "inherit", stdout: "inherit", stderr: "inherit", ...options });
+
+    const promise = new AsyncPromiseCancelable<boolean>();
+    promise.cancel = process.cancel;
+    process.then(result => result.success).then(promise.resolve, promise.reject);
+    return promise;
+}
+
+/** Controls how often and how quickly respawn retries a failed process */
+export interface RetryPolicy {
+    /** The maximum number of retries after the first attempt. The default is Infinity. */
+    retries?: number;
+
+    /** The delay in milliseconds before the first retry. The default is 1 second. */
+    delay?: number;
+
+    /** The multiplier applied to the delay after each retry. The default is 2. */
+    factor?: number;
+
+    /** The maximum delay in milliseconds. The default is 1 minute. */
+    maxDelay?: number;
+}
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+    retries: Infinity,
+    delay: 1000,
+    factor: 2,
+    maxDelay: 60 * 1000,
+};
+
+export interface RespawnOptions extends ProcessOptions {
+    retry?: RetryPolicy;
+}
+
+/**
+ * Runs an application repeatedly until it succeeds,
+ * backing off between attempts according to the retry policy.
+ * 
+ * The promise is rejected with a ProcessError if the retries run out.
+ * Canceling the promise kills the current process, stops retrying,
+ * and rejects the promise with a ProcessError.
+ * 
+ * @param command The application to run
+ * @param commandArguments The arguments to provide to the application
+ *  (either as separate arguments or as an array followed by RespawnOptions)
+ */
+export function respawn(command: string, ...commandArguments: string[]): PromiseCancelable<void>;
+export function respawn(command: string, commandArguments: string[], options?: RespawnOptions): PromiseCancelable<void>;
+export function respawn(command: string, ...rest: ProcessArguments): PromiseCancelable<void> {
+    const [commandArguments, options] = toProcessArguments<RespawnOptions>(rest);
+    const policy = { ...DEFAULT_RETRY_POLICY, ...options?.retry };
+
+    const promise = new AsyncPromiseCancelable<void>();
+    let current: PromiseCancelable<unknown> | undefined;
+    let canceled = false;
+
+    promise.cancel = () => {
+        canceled = true;
+        current?.cancel();
+    };
+
+    async function _respawn(): Promise<void> {
+        let wait = policy.delay;
+        for (let attempt = 0; ; ++attempt) {
+            const process = run(command, commandArguments, { stdin: "inherit", stdout: "inherit", stderr: "inherit", ...options });
+            current = process;
+            const result = await process;
+            if (result.success) {
+                return;
+            }
+
+            if (canceled || (attempt >= policy.retries)) {
+                throw new ProcessError(command, { ...result, canceled });
+            }
+
+            current = delay(wait);
+            await current;
+            wait = Math.min(wait * policy.factor, policy.maxDelay);
+
+            if (canceled) {
+                throw new ProcessError(command, { ...result, canceled });
+            }
         }
     }
+
+    _respawn().then(promise.resolve, promise.reject);
+    return promise;
 }
 
 export async function cat(input: { source: FilePath, destination: FilePath }) {
-    for await (const chunk of readRanges(input.source, { length: 4 * 1024 })) {
-        await writeFile(input.destination, chunk, { append: true });
-    }
+    await writeRanges(input.destination, readRanges(input.source, { length: 4 * 1024 }), { append: true });
 }
 
 /** A file in the file system */
 export interface File { _type: 'File'; }
 
-function isFile(value: unknown): value is File {
-    // Underneath our opaque file is a Deno.File
-    return (value instanceof Deno.File);
+function isFile(value: FileOrPath): value is File {
+    // Underneath our opaque file is a FileHandle provided by the file system
+    return !((typeof value === "string") || (value instanceof URL));
 }
 
-type RID = number & { _type: 'RID'; };
-
-function rid(file: File): RID {
-    return (file as unknown as Deno.File).rid as RID;
+function handle(file: File): FileHandle {
+    return file as unknown as FileHandle;
 }
 
 /** A file system path or a file:// URL */
@@ -116,6 +497,171 @@ export type FilePath = string | URL;
 /** A file, a file system path, or a file:// URL */
 export type FileOrPath = File | FilePath;
 
+/** The type of a file system entry */
+export interface FileSystemType {
+    isFile: boolean;
+    isDirectory: boolean;
+    isSymlink: boolean;
+}
+
+/** A named entry in a folder */
+export interface FileSystemEntry extends FileSystemType {
+    name: string;
+}
+
+/** The metadata reported by a FileSystem. Values that the platform can't provide are null. */
+export interface FileSystemInfo extends FileSystemType {
+    size: number;
+    mtime: Date | null;
+    ctime: Date | null;
+    ino: number | null;
+    dev: number | null;
+}
+
+/** Options for opening a file. By default, files are opened for reading. */
+export interface OpenOptions {
+    read?: boolean;
+    write?: boolean;
+    append?: boolean;
+    create?: boolean;
+    createNew?: boolean;
+    truncate?: boolean;
+    mode?: number;
+}
+
+/** An open file as provided by a FileSystem */
+export interface FileHandle {
+    /** Reads data into the buffer, returning the number of bytes read or null at the end of the file */
+    read(buffer: Uint8Array): Promise<number | null>;
+
+    /** Writes data at the current position, returning the number of bytes written */
+    write(data: Uint8Array): Promise<number>;
+
+    /** Moves the current position to the specified offset from the start of the file */
+    seek(position: number): Promise<number>;
+
+    /** Returns the metadata of the open file */
+    stat(): Promise<FileSystemInfo>;
+
+    /** Flushes the data and metadata of the file to the storage device */
+    sync(): Promise<void>;
+
+    close(): void;
+}
+
+/**
+ * The low-level operations that the functions in file.ts are built on.
+ * 
+ * The default implementation is Deno's file system. Replace it with `setFileSystem`
+ * to run the same code against a different backend, such as the in-memory file system
+ * in file-memory.ts.
+ * 
+ * Paths are passed through as provided by the caller except that file:// URLs in string form
+ * have already been converted to URL objects.
+ */
+export interface FileSystem {
+    open(filePath: FilePath, options?: OpenOptions): Promise<FileHandle>;
+    lstat(filePath: FilePath): Promise<FileSystemInfo>;
+    readLink(filePath: FilePath): Promise<string>;
+    readDirectory(folderPath: URL): AsyncIterable<FileSystemEntry>;
+    makeDirectory(filePath: FilePath, options: { recursive: boolean }): Promise<void>;
+    writeFile(filePath: FilePath, data: Uint8Array, options?: WriteFileOptions): Promise<void>;
+    rename(oldPath: string, newPath: string): Promise<void>;
+    remove(filePath: FilePath): Promise<void>;
+    watch(folderPath: string, options: { recursive: boolean }): FileSystemWatcher;
+}
+
+/** A change reported by a FileSystem watcher (the same as Deno.FsEvent) */
+export interface FileSystemEvent {
+    kind: "any" | "access" | "create" | "modify" | "remove" | "rename" | "other";
+    paths: string[];
+}
+
+/** The changes in a folder reported by a FileSystem (the same as Deno.FsWatcher) */
+export interface FileSystemWatcher extends AsyncIterable<FileSystemEvent> {
+    close(): void;
+}
+
+function toFileSystemInfo(info: Deno.FileInfo): FileSystemInfo {
+    // Older versions of Deno don't report ctime
+    const ctime = (info as { ctime?: Date | null }).ctime ?? null;
+    return {
+        isFile: info.isFile,
+        isDirectory: info.isDirectory,
+        isSymlink: info.isSymlink,
+        size: info.size,
+        mtime: info.mtime,
+        ctime,
+        ino: info.ino,
+        dev: info.dev,
+    };
+}
+
+/** Deno's file system */
+export const denoFileSystem: FileSystem = {
+    async open(filePath: FilePath, options?: OpenOptions): Promise<FileHandle> {
+        const file = await Deno.open(filePath, options);
+        return {
+            read: (buffer: Uint8Array) => file.read(buffer),
+            write: (data: Uint8Array) => file.write(data),
+            seek: (position: number) => file.seek(position, Deno.SeekMode.Start),
+            stat: async () => toFileSystemInfo(await file.stat()),
+            sync: () => file.sync(),
+            close: () => file.close(),
+        };
+    },
+
+    async lstat(filePath: FilePath): Promise<FileSystemInfo> {
+        return toFileSystemInfo(await Deno.lstat(filePath));
+    },
+
+    readLink(filePath: FilePath): Promise<string> {
+        // Deno.readLink doesn't accept URLs
+        return Deno.readLink(toFilePath(filePath));
+    },
+
+    readDirectory(folderPath: URL): AsyncIterable<FileSystemEntry> {
+        return Deno.readDir(folderPath);
+    },
+
+    makeDirectory(filePath: FilePath, options: { recursive: boolean }): Promise<void> {
+        return Deno.mkdir(filePath, options);
+    },
+
+    writeFile(filePath: FilePath, data: Uint8Array, options?: WriteFileOptions): Promise<void> {
+        return Deno.writeFile(filePath, data, options);
+    },
+
+    rename(oldPath: string, newPath: string): Promise<void> {
+        return Deno.rename(oldPath, newPath);
+    },
+
+    remove(filePath: FilePath): Promise<void> {
+        return Deno.remove(filePath);
+    },
+
+    watch(folderPath: string, options: { recursive: boolean }): FileSystemWatcher {
+        return Deno.watchFs(folderPath, options);
+    },
+};
+
+let fileSystem: FileSystem = denoFileSystem;
+
+/**
+ * Replaces the file system used by the functions in this file
+ * and returns the previous file system so that it can be restored.
+ */
+export function setFileSystem(value: FileSystem): FileSystem {
+    const previous = fileSystem;
+    fileSystem = value;
+    return previous;
+}
+
+/** Returns the file system used by the functions in this file */
+export function getFileSystem(): FileSystem {
+    return fileSystem;
+}
+
 function adaptFilePath(filePath: FilePath): FilePath {
     // Deno doesn't handle URLs that are in string form
     // so we'll do it before giving the URL to Deno
@@ -127,27 +673,148 @@ function adaptFilePath(filePath: FilePath): FilePath {
     return filePath;
 }
 
-/** Converts a file path to a file URL */
-export function toFileURL(filePath: FilePath): URL {
-    if (!(filePath instanceof URL)) {
-        if (filePath.startsWith("file://")) {
-            return new URL(filePath);
-        } else {
-            const url = new URL("file://");
-            url.pathname = filePath.split("/").map(encodeURIComponent).join("/");
-            return url;
+export interface FilePathOptions {
+    /**
+     * The location that relative paths are resolved against, as for URLs:
+     * a folder (ending with "/") or a file whose folder is used.
+     * The default is the current working directory.
+     */
+    base?: FilePath;
+
+    /**
+     * The home folder that `~` refers to.
+     * The default is the HOME (or USERPROFILE) environment variable.
+     */
+    home?: string;
+
+    /**
+     * Treat backslashes as separators and recognize drive letters (C:\) and UNC paths (\\server\share).
+     * The default is true on Windows and false elsewhere.
+     */
+    windows?: boolean;
+
+    /**
+     * Maps Windows drive letters to folders, so that paths written on one machine can be used on another.
+     * For example, `{ "D:": "/Volumes/Media/" }` maps `D:\TV\` to `/Volumes/Media/TV/`.
+     * Drive-letter paths are recognized (whatever the `windows` option) when the drive is in this map.
+     */
+    drives?: Record<string, FilePath>;
+}
+
+const driveRE = /^(?<drive>[A-Za-z]:)(?:[\\/]|$)/;
+const uncRE = /^\\\\(?<host>[^\\/]+)(?<path>[\\/].*)?$/;
+
+function isWindows(): boolean {
+    return Deno.build.os === "windows";
+}
+
+function homeFolder(options?: FilePathOptions): string {
+    const home = options?.home ?? Deno.env.get("HOME") ?? Deno.env.get("USERPROFILE");
+    if (home === undefined) {
+        throw new Deno.errors.NotFound("Unable to find the home folder");
+    }
+    return home;
+}
+
+function currentFolder(): string {
+    return Deno.cwd();
+}
+
+/** Encodes each segment of a path leaving the separators and dot segments alone */
+function encodePath(path: string): string {
+    return path.split(SEPARATOR).map(encodeURIComponent).join(SEPARATOR);
+}
+
+/**
+ * Converts a file path to a file URL.
+ *
+ * URLs and strings starting with "file://" are used as they are.
+ * Otherwise the path is normalized:
+ *
+ * - "~" and paths starting with "~/" are relative to the home folder
+ * - Relative paths are resolved against `base` or the current working directory
+ * - "." and ".." segments are removed
+ * - Windows paths (C:\Folder\File.txt and \\server\share\File.txt) are recognized on Windows
+ *   or with the `windows` option
+ * - Drive letters can be mapped to other folders with the `drives` option
+ *
+ * A trailing separator is kept, so folder paths produce folder URLs.
+ *
+ * @param filePath - A file path or file URL
+ * @param options - How relative, home, and Windows paths are handled
+ */
+export function toFileURL(filePath: FilePath, options?: FilePathOptions): URL {
+    if (filePath instanceof URL) {
+        return filePath;
+    }
+
+    if (filePath.startsWith("file://")) {
+        return new URL(filePath);
+    }
+
+    const windows = options?.windows ?? isWindows();
+    const drive = driveRE.exec(filePath)?.groups?.drive;
+    const mapped = (drive !== undefined) ? options?.drives?.[drive.toUpperCase()] ?? options?.drives?.[drive.toLowerCase()] : undefined;
+
+    if (mapped !== undefined) {
+        const rest = filePath.substring(drive!.length).replaceAll("\\", SEPARATOR).replace(/^\//, "");
+        return new URL(encodePath(rest), withFolderSlash(toFileURL(mapped, options), true));
+    }
+
+    if (windows) {
+        const unc = uncRE.exec(filePath)?.groups;
+        if (unc !== undefined) {
+            const url = new URL(`file://${unc.host}/`);
+            return new URL(encodePath((unc.path ?? SEPARATOR).replaceAll("\\", SEPARATOR).substring(1)), url);
+        }
+
+        filePath = filePath.replaceAll("\\", SEPARATOR);
+        if (drive !== undefined) {
+            return new URL(`file:///${drive}${encodePath(filePath.substring(drive.length) || SEPARATOR)}`);
         }
     }
-    return filePath;
+
+    if ((filePath === "~") || filePath.startsWith("~/")) {
+        return toFileURL(filePath.substring(2), { ...options, base: withFolderSlash(toFileURL(homeFolder(options), options), true) });
+    }
+
+    if (filePath.startsWith(SEPARATOR)) {
+        return new URL(`file://${encodePath(filePath)}`);
+    }
+
+    const base = (options?.base !== undefined) ?
+        toFileURL(options.base, { ...options, base: undefined }) :
+        withFolderSlash(toFileURL(currentFolder(), options), true);
+    return new URL(encodePath(filePath), base);
 }
 
-/** Converts a URL to a file path */
-export function toFilePath(filePath: FilePath): string {
-    const url = toFileURL(filePath);
+/**
+ * Converts a URL to a file path.
+ *
+ * With the `windows` option (the default on Windows), drive letters and UNC paths are returned
+ * with backslashes as separators: file:///C:/Folder/ becomes C:\Folder\
+ *
+ * @param filePath - A file URL or file path (which is normalized by toFileURL)
+ * @param options - How relative, home, and Windows paths are handled
+ */
+export function toFilePath(filePath: FilePath, options?: FilePathOptions): string {
+    const url = toFileURL(filePath, options);
     if (url.protocol != "file:") {
         throw new TypeError("Must be a file URL.");
     }
-    return decodeURIComponent(url.pathname);
+
+    const path = decodeURIComponent(url.pathname);
+    if (!(options?.windows ?? isWindows())) {
+        return path;
+    }
+
+    if (url.host !== "") {
+        return `\\\\${url.host}${path.replaceAll(SEPARATOR, "\\")}`;
+    }
+    if (driveRE.test(path.substring(1))) {
+        return path.substring(1).replaceAll(SEPARATOR, "\\");
+    }
+    return path.replaceAll(SEPARATOR, "\\");
 }
 
 const SEPARATOR = "/";
@@ -168,7 +835,7 @@ export function isFolderPath(filePath: FilePath): boolean {
  * */
 export async function exists(filePath: FilePath): Promise<boolean> {
     try {
-        await Deno.lstat(adaptFilePath(filePath));
+        await fileSystem.lstat(adaptFilePath(filePath));
         return true;
     } catch (e) {
         if (e instanceof Deno.errors.NotFound) {
@@ -178,58 +845,124 @@ export async function exists(filePath: FilePath): Promise<boolean> {
     }
 }
 
+/** The kind of a file system entry */
+export type FileKind = "file" | "folder" | "symlink";
+
 /**
- * Creates the directory in the file system.
- * @param filePath The directory to make
+ * Metadata about a file, folder, or symbolic link.
+ * 
+ * Symbolic links are not followed, so a link is reported as a link
+ * and its size is the size of the link itself.
  */
-export async function makeDirectory(filePath: FilePath): Promise<void> {
-    return Deno.mkdir(adaptFilePath(filePath), { recursive: true });
-}
+export interface FileStatus {
+    /** Whether the entry is a file, a folder, or a symbolic link */
+    kind: FileKind;
 
-/** Renames/moves oldPath to newPath */
-export async function rename(oldPath: FilePath, newPath: FilePath): Promise<void> {
-    return Deno.rename(toFilePath(oldPath), toFilePath(newPath));
-}
+    /** The length in bytes */
+    size: number;
 
-/** Removes/deletes a file or folder */
-export async function remove(filePath: FilePath): Promise<void> {
-    return Deno.remove(adaptFilePath(filePath));
-}
+    /** The time of the last modification of the data, if the platform provides it */
+    mtime?: Date;
 
-/** Opens a file */
-export async function open(filePath: FilePath): Promise<File> {
-    return await Deno.open(adaptFilePath(filePath)) as unknown as File;
-}
+    /** The time of the last change to the data or metadata, if the platform provides it */
+    ctime?: Date;
 
-/** Closes an open file */
-export function close(file: File): void {
-    // Hide RID from outside world
-    Deno.close(rid(file));
+    /** The inode number, if the platform provides it */
+    inode?: number;
+
+    /** The ID of the device containing the entry, if the platform provides it */
+    device?: number;
 }
 
-/** Holds a file and a boolean indicating whether to close the file when dispose is called */
-class FileHolder {
-    file: File;
-    close: boolean;
+function toFileStatus(info: FileSystemInfo): FileStatus {
+    const kind: FileKind = info.isSymlink ? "symlink" : (info.isDirectory ? "folder" : "file");
+    const result: FileStatus = { kind, size: info.size };
 
-    constructor(file: File, close: boolean) {
-        this.file = file;
-        this.close = close;
+    if (info.mtime !== null) {
+        result.mtime = info.mtime;
     }
 
-    dispose() {
-        if (this.close) {
-            close(this.file);
-        }
+    if (info.ctime !== null) {
+        result.ctime = info.ctime;
     }
 
-    // If we get a File, we don't want to close it
+    if (info.ino !== null) {
+        result.inode = info.ino;
+    }
+
+    if (info.dev !== null) {
+        result.device = info.dev;
+    }
+
+    return result;
+}
+
+/**
+ * Returns the size, modification time, kind, and other metadata of a file, folder, or symbolic link.
+ * 
+ * Symbolic links are not followed when a path is provided.
+ * An open file reports the metadata of the file that was opened.
+ * 
+ * @param fileOrPath - A file, file:// URL, or file path
+ */
+export async function stat(fileOrPath: FileOrPath): Promise<FileStatus> {
+    if (isFile(fileOrPath)) {
+        return toFileStatus(await handle(fileOrPath).stat());
+    }
+    return toFileStatus(await fileSystem.lstat(adaptFilePath(fileOrPath)));
+}
+
+/**
+ * Creates the directory in the file system.
+ * @param filePath The directory to make
+ */
+export async function makeDirectory(filePath: FilePath): Promise<void> {
+    return fileSystem.makeDirectory(adaptFilePath(filePath), { recursive: true });
+}
+
+/** Renames/moves oldPath to newPath */
+export async function rename(oldPath: FilePath, newPath: FilePath): Promise<void> {
+    return fileSystem.rename(toFilePath(oldPath), toFilePath(newPath));
+}
+
+/** Removes/deletes a file or folder */
+export async function remove(filePath: FilePath): Promise<void> {
+    return fileSystem.remove(adaptFilePath(filePath));
+}
+
+/** Opens a file (for reading unless other options are provided) */
+export async function open(filePath: FilePath, options?: OpenOptions): Promise<File> {
+    return await fileSystem.open(adaptFilePath(filePath), options) as unknown as File;
+}
+
+/** Closes an open file */
+export function close(file: File): void {
+    handle(file).close();
+}
+
+/** Holds a file and a boolean indicating whether to close the file when dispose is called */
+class FileHolder {
+    file: File;
+    close: boolean;
+
+    constructor(file: File, close: boolean) {
+        this.file = file;
+        this.close = close;
+    }
+
+    dispose() {
+        if (this.close) {
+            close(this.file);
+        }
+    }
+
+    // If we get a File, we don't want to close it
     // If we get a URL or path, we want to open the File and close it when done
-    static async create(fileOrPath: FileOrPath) {
+    static async create(fileOrPath: FileOrPath, options?: OpenOptions) {
         if (isFile(fileOrPath)) {
             return new FileHolder(fileOrPath, false);
         } else {
-            const file = await open(fileOrPath);
+            const file = await open(fileOrPath, options);
             return new FileHolder(file, true);
         }
     }
@@ -276,20 +1009,158 @@ function byteRangeEnd(range: ByteRange): number {
     return (range.start || 0) + ByteRangeDefaultLength;
 }
 
-export type WriteFileOptions = Deno.WriteFileOptions;
+export type WriteFileOptions = Deno.WriteFileOptions & {
+    /**
+     * Write to a temporary file next to the destination and then rename it
+     * so that the destination never contains partial data. Can't be combined with `append`.
+     */
+    atomic?: boolean,
+
+    /** Flush the data to the storage device before an atomic write renames the temporary file */
+    sync?: boolean,
+};
+
+/** The extension added to the name of a file while fetchToFile downloads it */
+const DOWNLOAD_EXTENSION = "download";
+
+/** The extension of the temporary file written by replaceFile */
+const REPLACE_EXTENSION = "tmp";
+
+/**
+ * Replaces a file atomically by calling `write` to write a temporary file named `name.extension.random.tmp`
+ * next to the destination, then renaming the temporary file to the destination.
+ * The random part keeps simultaneous replacements of the same file from sharing a temporary file.
+ * 
+ * If `write` or the rename fails, the temporary file is removed and the error is rethrown.
+ * The destination is only changed if `write` succeeds, so `write` can also validate the temporary file.
+ * 
+ * @param filePath The destination file
+ * @param write A function that writes the temporary file at the path it is given
+ */
+export async function replaceFile(filePath: FilePath, write: (tempPath: URL) => Promise<void>): Promise<void> {
+    const url = toFileURL(filePath);
+    const tempPath = new URL(`${url.href}.${tempName({ suffix: `.${REPLACE_EXTENSION}` })}`);
+    try {
+        await write(tempPath);
+        await rename(tempPath, url);
+    } catch (e) {
+        if (await exists(tempPath)) {
+            await remove(tempPath);
+        }
+        throw e;
+    }
+}
+
+// FileHandle.write does not guarantee it will write all the data,
+// so writeFull implements the loop that writes until all the data is written
+async function writeFull(file: FileHandle, data: Uint8Array): Promise<void> {
+    let remaining = data;
+    while (remaining.length > 0) {
+        const bytesWritten = await file.write(remaining);
+        remaining = remaining.subarray(bytesWritten);
+    }
+}
 
 /** Writes data to a file */
 export async function writeFile(filePath: FilePath, data: Uint8Array, options?: WriteFileOptions | undefined): Promise<void> {
-    return await Deno.writeFile(adaptFilePath(filePath), data, options);
+    if (options?.atomic) {
+        if (options.append) {
+            throw new TypeError("writeFile failure: atomic writes can't append");
+        }
+
+        return await replaceFile(filePath, async (tempPath) => {
+            const file = await fileSystem.open(tempPath, { write: true, create: true, truncate: true, mode: options.mode });
+            try {
+                await writeFull(file, data);
+                if (options.sync) {
+                    await file.sync();
+                }
+            } finally {
+                file.close();
+            }
+        });
+    }
+
+    return await fileSystem.writeFile(adaptFilePath(filePath), data, options);
 }
 
 export async function writeTextFile(filePath: FilePath, data: string, options?: WriteFileOptions | undefined): Promise<void> {
     return writeFile(filePath, new TextEncoder().encode(data), options);
 }
 
-// Deno.read does not guarantee it will read the requested length even if the file is large enough,
+export interface WriteRangesOptions {
+    /** The position in the file at which to write the first chunk. The default is 0. */
+    start?: number;
+
+    /** Write the first chunk at the end of the file (ignoring `start`) */
+    append?: boolean;
+
+    /** Remove the existing content of the file first. Only applies when a path is provided. */
+    truncate?: boolean;
+}
+
+/**
+ * Writes chunks of data to a file one after the other, starting at the specified position.
+ * 
+ * Data beyond the written range is not changed unless `truncate` is specified.
+ * If a path is provided and the file doesn't exist, it is created.
+ * 
+ * The file is opened once (or not at all if you provide an open File)
+ * however many chunks are written.
+ * 
+ * @param fileOrPath - A file, file:// URL, or file path
+ * @param chunks - The data to write
+ * @param options - Where to write the data
+ * 
+ * @return - Returns the number of bytes written
+ */
+export async function writeRanges(fileOrPath: FileOrPath, chunks: AnyIterable<Uint8Array>, options?: WriteRangesOptions): Promise<number> {
+    const fileHolder = await FileHolder.create(fileOrPath, { write: true, create: true, truncate: options?.truncate });
+    try {
+        const file = handle(fileHolder.file);
+        const start = options?.append ? (await file.stat()).size : (options?.start || 0);
+        await file.seek(start);
+
+        let total = 0;
+        for await (const chunk of chunks) {
+            await writeFull(file, chunk);
+            total += chunk.length;
+        }
+        return total;
+    } finally {
+        fileHolder.dispose();
+    }
+}
+
+/**
+ * Writes data to a file at the specified position without changing the data
+ * before or after the range that is written.
+ * 
+ * If a path is provided and the file doesn't exist, it is created.
+ * 
+ * @param fileOrPath - A file, file:// URL, or file path
+ * @param data - The data to write
+ * @param range - The position in the file at which to write the data. The default is 0.
+ */
+export async function writeRange(fileOrPath: FileOrPath, data: Uint8Array, range?: { start?: number }): Promise<void> {
+    await writeRanges(fileOrPath, [data], { start: range?.start });
+}
+
+/**
+ * Writes data to the end of a file.
+ * 
+ * If a path is provided and the file doesn't exist, it is created.
+ * 
+ * @param fileOrPath - A file, file:// URL, or file path
+ * @param data - The data to write
+ */
+export async function appendFile(fileOrPath: FileOrPath, data: Uint8Array): Promise<void> {
+    await writeRanges(fileOrPath, [data], { append: true });
+}
+
+// FileHandle.read does not guarantee it will read the requested length even if the file is large enough,
 // so readFull implements the loop that fills the provided buffer as far as possible
-async function readFull(rid: RID, buffer: Uint8Array): Promise<number> {
+async function readFull(file: FileHandle, buffer: Uint8Array): Promise<number> {
     let totalBytesRead = 0;
     let workingBuffer = buffer;
 
@@ -297,12 +1168,12 @@ async function readFull(rid: RID, buffer: Uint8Array): Promise<number> {
     const zeroReadLimit = 16;
 
     while (true) {
-        const bytesRead = await Deno.read(rid, workingBuffer);
+        const bytesRead = await file.read(workingBuffer);
         if (bytesRead !== null) {
             if (bytesRead === 0) {
                 ++zeroReadCount;
                 if (zeroReadCount > zeroReadLimit) {
-                    throw "readFull failure: Deno.read keeps returning zero length data without error.";
+                    throw "readFull failure: read keeps returning zero length data without error.";
                 }
             } else {
                 zeroReadCount = 0;
@@ -328,12 +1199,12 @@ async function readFull(rid: RID, buffer: Uint8Array): Promise<number> {
 // caller's buffer is not used.
 // If a suitable buffer is supplied, the function writes to the buffer starting at 0 up to the maximum size of the range
 // If a suitable buffer is supplied, the return value is a subarray of the passed in buffer
-async function _readRange(rid: RID, range: ByteRange, buffer?: Uint8Array): Promise<Uint8Array> {
+async function _readRange(file: FileHandle, range: ByteRange, buffer?: Uint8Array): Promise<Uint8Array> {
     const start = range.start || 0;
     const length = byteRangeLength(range);
     const result = (buffer && buffer.length >= length) ? buffer.subarray(0, length) : new Uint8Array(length);
-    const position = await Deno.seek(rid, start, Deno.SeekMode.Start);
-    const bytesRead = await readFull(rid, result);
+    const position = await file.seek(start);
+    const bytesRead = await readFull(file, result);
     return result.subarray(0, bytesRead);
 }
 
@@ -361,7 +1232,7 @@ async function _readRange(rid: RID, range: ByteRange, buffer?: Uint8Array): Prom
 export async function readRange(fileOrPath: FileOrPath, range: ByteRange, buffer?: Uint8Array): Promise<Uint8Array> {
     const fileHolder = await FileHolder.create(fileOrPath);
     try {
-        return await _readRange(rid(fileHolder.file), range, buffer);
+        return await _readRange(handle(fileHolder.file), range, buffer);
     } finally {
         fileHolder.dispose();
     }
@@ -391,10 +1262,10 @@ export function readRanges(fileOrPath: FileOrPath, range: ByteRange, buffer?: Ui
             : new Uint8Array(length);
         const fileHolder = await FileHolder.create(fileOrPath);
         try {
-            const id = rid(fileHolder.file);
-            const position = await Deno.seek(id, start, Deno.SeekMode.Start);
+            const file = handle(fileHolder.file);
+            const position = await file.seek(start);
             while (true) {
-                const bytesRead = await readFull(id, workingBuffer);
+                const bytesRead = await readFull(file, workingBuffer);
                 const final = (bytesRead < workingBuffer.length);
                 if (bytesRead > 0) {
                     // Copy the data to return it to the caller
@@ -411,66 +1282,1270 @@ export function readRanges(fileOrPath: FileOrPath, range: ByteRange, buffer?: Ui
         }
     }
 
-    return generable(_readRanges)();
+    return generable(_readRanges)();
+}
+
+/**
+ * Reads exactly the specified byte range from a file (or less if the file is shorter)
+ * as a sequence of chunks, so that large ranges don't need to fit in memory.
+ * 
+ * Unlike readRanges, the range defines the start and end of the data rather than the size of each chunk.
+ * 
+ * Each chunk returned by the iterator is an independent copy.
+ * 
+ * @param fileOrPath - A file, file:// URL, or file path
+ * @param range - The byte range to read from the file. If the range has no end or length, data is read to the end of the file.
+ * @param chunkLength - The maximum length of each chunk. The default is 4 MB.
+ */
+export function readRangeInChunks(fileOrPath: FileOrPath, range: ByteRange, chunkLength = ByteRangeDefaultLength): AsyncIterable<Uint8Array> {
+    const start = range.start || 0;
+    const end = (byteRangeHasEnd(range) || byteRangeHasLength(range)) ? byteRangeEnd(range) : Infinity;
+
+    async function* _readRangeInChunks() {
+        let remaining = end - start;
+        if (remaining <= 0) {
+            return;
+        }
+
+        const length = Math.min(chunkLength, remaining);
+        for await (const chunk of readRanges(fileOrPath, { start, length })) {
+            if (chunk.length >= remaining) {
+                yield chunk.subarray(0, remaining);
+                return;
+            }
+            yield chunk;
+            remaining -= chunk.length;
+        }
+    }
+
+    return generable(_readRangeInChunks)();
+}
+
+/**
+ * Converts an iterable of data into a ReadableStream, such as the body of a Response.
+ *
+ * The next chunk is only requested from the iterable when the stream's consumer is ready for it,
+ * so a slow consumer doesn't cause data to build up in memory.
+ * Cancelling the stream ends the iteration (which closes the file for iterables from readRanges and friends).
+ *
+ * @param iterable - The data
+ */
+export function toReadableStream(iterable: AnyIterable<Uint8Array>): ReadableStream<Uint8Array> {
+    const iterator = (Symbol.asyncIterator in iterable) ? iterable[Symbol.asyncIterator]() : iterable[Symbol.iterator]();
+    return new ReadableStream({
+        async pull(controller) {
+            const { done, value } = await iterator.next();
+            if (done) {
+                controller.close();
+            } else {
+                controller.enqueue(value);
+            }
+        },
+        async cancel() {
+            await iterator.return?.();
+        },
+    }, { highWaterMark: 1 });
+}
+
+/**
+ * Converts a ReadableStream into an async iterable that can be passed to writeRanges and other functions.
+ * The stream can only be read once.
+ * If the iteration ends early, the stream is cancelled.
+ *
+ * @param stream - The data
+ */
+export function fromReadableStream(stream: ReadableStream<Uint8Array>): AsyncIterable<Uint8Array> {
+    async function* _fromReadableStream() {
+        const reader = stream.getReader();
+        let done = false;
+        try {
+            while (true) {
+                const result = await reader.read();
+                if (result.done) {
+                    done = true;
+                    return;
+                }
+                yield result.value;
+            }
+        } finally {
+            if (!done) {
+                await reader.cancel();
+            }
+            reader.releaseLock();
+        }
+    }
+
+    return _fromReadableStream();
+}
+
+/**
+ * Reads a range of a file as a ReadableStream, so that part of a file can be used
+ * directly as the body of a Response or piped through a CompressionStream.
+ *
+ * The file is read as the stream is consumed and is closed when the stream ends or is cancelled.
+ *
+ * @param fileOrPath - A file, file:// URL, or file path
+ * @param range - The byte range to read. The default is the whole file.
+ * @param chunkLength - The maximum length of each chunk. The default is 4 MB.
+ */
+export function readableStream(fileOrPath: FileOrPath, range: ByteRange = { start: 0 }, chunkLength = ByteRangeDefaultLength): ReadableStream<Uint8Array> {
+    return toReadableStream(readRangeInChunks(fileOrPath, range, chunkLength));
+}
+
+/**
+ * Creates a WritableStream that writes to a file, such as the destination of `Response.body.pipeTo`.
+ *
+ * Each chunk is written before the stream accepts the next one, so a fast producer waits for the file.
+ * The file is opened when the stream is created and closed when the stream is closed or aborted
+ * (unless an open File was provided).
+ *
+ * @param fileOrPath - A file, file:// URL, or file path
+ * @param options - Where to write the data
+ */
+export function writableStream(fileOrPath: FileOrPath, options?: WriteRangesOptions): WritableStream<Uint8Array> {
+    let fileHolder: FileHolder | undefined;
+    let file: FileHandle;
+
+    // The stream doesn't call abort after start or write fails, so the file is closed here
+    function dispose() {
+        fileHolder?.dispose();
+        fileHolder = undefined;
+    }
+
+    return new WritableStream({
+        async start() {
+            fileHolder = await FileHolder.create(fileOrPath, { write: true, create: true, truncate: options?.truncate });
+            try {
+                file = handle(fileHolder.file);
+                const start = options?.append ? (await file.stat()).size : (options?.start || 0);
+                await file.seek(start);
+            } catch (e) {
+                dispose();
+                throw e;
+            }
+        },
+        async write(chunk) {
+            try {
+                await writeFull(file, chunk);
+            } catch (e) {
+                dispose();
+                throw e;
+            }
+        },
+        close: dispose,
+        abort: dispose,
+    }, { highWaterMark: 1 });
+}
+
+/**
+ * Reads an entire file if it is smaller than the internal or external buffer.
+ * If the file is not smaller than the buffer used, an exception is thrown.
+ * 
+ * The internal buffer is 4 MB and is used if no external buffer is supplied.
+ * The external buffer is optionally allocated and provided by the caller.
+ * 
+ * This function is suitable for reading small files of predictable size.
+ * For reading large files, use readRanges instead.
+ * 
+ * @param fileOrPath - A file, file:// URL, or file path
+ * @param buffer - An optional buffer to be used for reading the data
+ * 
+ * @return - Returns the entire contents of the file if the internal or external buffer
+ *  is large enough to hold it. Otherwise, an exception is thrown.
+ */
+export async function readFile(fileOrPath: FileOrPath, buffer?: Uint8Array): Promise<Uint8Array> {
+    const length = (buffer ? buffer.length : ByteRangeDefaultLength);
+    const result = await readRange(fileOrPath, { start: 0, length }, buffer);
+    if (result.length >= length) {
+        throw `File is not less than ${length} bytes, so unable to retrieve the whole file.`;
+    }
+    return result;
+}
+
+/**
+ * A text encoding label as understood by TextDecoder, such as "utf-8", "utf-16le", or "windows-1252",
+ * or "auto" to detect the encoding from the data.
+ *
+ * Note that TextDecoder treats "iso-8859-1" and "latin1" as "windows-1252",
+ * which is a superset of ISO-8859-1 for all printable characters.
+ */
+export type TextEncodingLabel = string;
+
+/** The encoding used by detectTextEncoding for text that is not UTF-8 or UTF-16 */
+export const DEFAULT_LEGACY_ENCODING = "windows-1252";
+
+/** The number of bytes examined when looking for UTF-16 text without a byte order mark */
+const UTF16_SAMPLE_LENGTH = 4096;
+
+export interface TextDecodeOptions {
+    /** The encoding of the data. The default is "auto". */
+    encoding?: TextEncodingLabel;
+
+    /**
+     * The single-byte encoding used by "auto" when the data is not valid UTF-8.
+     * The default is "windows-1252" which covers English, Danish, Norwegian, Swedish, German, French, and Spanish.
+     */
+    legacyEncoding?: TextEncodingLabel;
+}
+
+export interface ReadTextFileOptions extends TextDecodeOptions {
+    /** An optional buffer to be used for reading the data (see readFile) */
+    buffer?: Uint8Array;
+}
+
+/** The encoding detected by detectTextEncoding */
+export interface DetectedTextEncoding {
+    /** The TextDecoder label for the encoding */
+    encoding: string;
+
+    /** The length of the byte order mark at the start of the data (0 if there isn't one) */
+    bomLength: number;
+}
+
+/** Returns "utf-16le" or "utf-16be" if the data looks like UTF-16 text without a byte order mark */
+function detectUTF16(data: Uint8Array): string | undefined {
+    const length = Math.min(data.length, UTF16_SAMPLE_LENGTH) & ~1;
+    if (length === 0) {
+        return undefined;
+    }
+
+    // Most characters in Western European text are below U+0100,
+    // so one byte of each pair is usually zero
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i < length; i += 2) {
+        if (data[i] === 0) {
+            ++evenZeros;
+        }
+        if (data[i + 1] === 0) {
+            ++oddZeros;
+        }
+    }
+
+    const pairs = length / 2;
+    const threshold = pairs * 0.3;
+    if ((oddZeros > threshold) && (evenZeros < pairs * 0.05)) {
+        return "utf-16le";
+    }
+    if ((evenZeros > threshold) && (oddZeros < pairs * 0.05)) {
+        return "utf-16be";
+    }
+    return undefined;
+}
+
+/** Returns true if the data is valid UTF-8, allowing a sequence to be cut off at the end */
+function isUTF8(data: Uint8Array): boolean {
+    try {
+        new TextDecoder("utf-8", { fatal: true }).decode(data, { stream: true });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Determines the encoding of some text.
+ *
+ * 1. A byte order mark identifies UTF-8, UTF-16LE, or UTF-16BE.
+ * 2. Data with a zero in most of its odd or even bytes is UTF-16 without a byte order mark.
+ * 3. Data that is valid UTF-8 is UTF-8 (including plain ASCII).
+ * 4. Anything else is assumed to use a legacy single-byte encoding (windows-1252 by default).
+ *
+ * The data can be the start of a file rather than the whole file.
+ *
+ * @param data - The text data
+ * @param legacyEncoding - The encoding to use for data that is not UTF-8 or UTF-16
+ */
+export function detectTextEncoding(data: Uint8Array, legacyEncoding: TextEncodingLabel = DEFAULT_LEGACY_ENCODING): DetectedTextEncoding {
+    if (startsWithBytes(data, [0xEF, 0xBB, 0xBF])) {
+        return { encoding: "utf-8", bomLength: 3 };
+    }
+    if (startsWithBytes(data, [0xFE, 0xFF])) {
+        return { encoding: "utf-16be", bomLength: 2 };
+    }
+    if (startsWithBytes(data, [0xFF, 0xFE])) {
+        return { encoding: "utf-16le", bomLength: 2 };
+    }
+
+    const utf16 = detectUTF16(data);
+    if (utf16 !== undefined) {
+        return { encoding: utf16, bomLength: 0 };
+    }
+
+    if (isUTF8(data)) {
+        return { encoding: "utf-8", bomLength: 0 };
+    }
+
+    return { encoding: legacyEncoding, bomLength: 0 };
+}
+
+/**
+ * Converts data to a string using the specified encoding,
+ * or the encoding determined by detectTextEncoding if the encoding is "auto" or not provided.
+ * A byte order mark is removed.
+ */
+export function decodeText(data: Uint8Array, options?: TextDecodeOptions): string {
+    const label = options?.encoding ?? "auto";
+    const encoding = (label === "auto") ? detectTextEncoding(data, options?.legacyEncoding).encoding : label;
+    return new TextDecoder(encoding).decode(data);
+}
+
+/**
+ * Reads an entire file if it is smaller than the internal or external buffer.
+ * If the file is not smaller than the buffer used, an exception is thrown.
+ *
+ * Like readFile except it returns a string.
+ *
+ * The encoding is detected from the data unless an `encoding` option is provided:
+ * see detectTextEncoding for details.
+ *
+ * @param fileOrPath - A file, file:// URL, or file path
+ * @param bufferOrOptions - An optional buffer to be used for reading the data, or options that include the buffer and encoding
+ */
+export async function readTextFile(fileOrPath: FileOrPath, bufferOrOptions?: Uint8Array | ReadTextFileOptions): Promise<string> {
+    const options = (bufferOrOptions instanceof Uint8Array) ? { buffer: bufferOrOptions } : bufferOrOptions;
+    const data = await readFile(fileOrPath, options?.buffer);
+    return decodeText(data, options);
+}
+
+/** The default maximum length of a line read by readLines is 1MB */
+export const LineDefaultMaximumLength = 1024 * 1024; // 1 MB
+
+/** The default length of the chunks read by readLines is 64K */
+const LINE_CHUNK_LENGTH = 64 * 1024;
+
+const LF = 0x0A;
+const CR = 0x0D;
+
+/** A line of text from readLines */
+export interface TextLine {
+    /** The text of the line without the line ending */
+    text: string;
+
+    /** The line number, starting at 1 */
+    number: number;
+
+    /** The byte offset in the file of the start of the line */
+    start: number;
+
+    /** The byte offset in the file of the end of the line (before the line ending) */
+    end: number;
+
+    /** The line ending: "\n", "\r\n", "\r", or "" for a final line without a line ending */
+    ending: "\n" | "\r\n" | "\r" | "";
+}
+
+export interface ReadLinesOptions {
+    /** The byte offset in the file to start reading from. The default is 0. */
+    start?: number;
+
+    /** The maximum length of a line in bytes (not including the line ending). The default is 1MB. */
+    maxLineLength?: number;
+
+    /**
+     * The encoding of the file. The default is "utf-8".
+     * Lines are found by looking for CR and LF bytes, so the encoding must be compatible with ASCII
+     * (such as UTF-8 or windows-1252, but not UTF-16).
+     */
+    encoding?: TextEncodingLabel;
+
+    /** The length of the chunks read from the file. The default is 64K. */
+    chunkLength?: number;
+}
+
+/** Thrown by readLines when a line is longer than the maximum line length */
+export class LineLengthError extends Error {
+    /** The line number */
+    number: number;
+
+    /** The byte offset in the file of the start of the line */
+    start: number;
+
+    constructor(number: number, start: number, maxLineLength: number) {
+        super(`Line ${number} at byte ${start} is longer than ${maxLineLength} bytes`);
+        this.name = "LineLengthError";
+        this.number = number;
+        this.start = start;
+    }
+}
+
+/**
+ * Reads a text file one line at a time, so that files of any size can be processed
+ * without reading the whole file into memory.
+ *
+ * Lines can end with LF, CRLF, or CR (or a mixture), and the line ending is reported for each line.
+ * A line ending at the end of the file does not produce an extra empty line.
+ * Multi-byte characters are decoded correctly even if they are split across chunks.
+ * A UTF-8 byte order mark at the start of the file is skipped.
+ *
+ * @param fileOrPath - A file, file:// URL, or file path
+ * @param options - The starting offset, maximum line length, encoding, and chunk length
+ */
+export function readLines(fileOrPath: FileOrPath, options?: ReadLinesOptions): AsyncIterable<TextLine> {
+    const start = options?.start ?? 0;
+    const maxLineLength = options?.maxLineLength ?? LineDefaultMaximumLength;
+    const chunkLength = options?.chunkLength ?? LINE_CHUNK_LENGTH;
+    const encoding = options?.encoding ?? "utf-8";
+
+    async function* _readLines(): AsyncGenerator<TextLine> {
+        const decoder = new TextDecoder(encoding, { ignoreBOM: true });
+
+        // The bytes of the current line that have been read so far
+        let parts: Uint8Array[] = [];
+        let partsLength = 0;
+
+        // A CR at the end of a chunk could be followed by LF in the next chunk
+        let pendingCR = false;
+
+        let lineStart = start;
+        let number = 1;
+
+        function append(data: Uint8Array) {
+            if (data.length === 0) {
+                return;
+            }
+            if (partsLength + data.length > maxLineLength) {
+                throw new LineLengthError(number, lineStart, maxLineLength);
+            }
+            parts.push(data);
+            partsLength += data.length;
+        }
+
+        function line(ending: TextLine["ending"]): TextLine {
+            let data = (parts.length === 1) ? parts[0] : concatChunks(parts, partsLength);
+            if ((number === 1) && (start === 0) && (encoding === "utf-8") && startsWithBytes(data, [0xEF, 0xBB, 0xBF])) {
+                data = data.subarray(3);
+                lineStart = 3;
+            }
+            const result = { text: decoder.decode(data), number, start: lineStart, end: lineStart + data.length, ending };
+            lineStart = result.end + ending.length;
+            ++number;
+            parts = [];
+            partsLength = 0;
+            return result;
+        }
+
+        for await (const chunk of readRanges(fileOrPath, { start, length: chunkLength })) {
+            let offset = 0;
+            if (pendingCR) {
+                pendingCR = false;
+                if (chunk[0] === LF) {
+                    offset = 1;
+                    yield line("\r\n");
+                } else {
+                    yield line("\r");
+                }
+            }
+
+            for (let index = offset; index < chunk.length; ++index) {
+                const byte = chunk[index];
+                if ((byte !== LF) && (byte !== CR)) {
+                    continue;
+                }
+
+                append(chunk.subarray(offset, index));
+                if (byte === LF) {
+                    yield line("\n");
+                } else if (index + 1 === chunk.length) {
+                    pendingCR = true;
+                } else if (chunk[index + 1] === LF) {
+                    ++index;
+                    yield line("\r\n");
+                } else {
+                    yield line("\r");
+                }
+                offset = index + 1;
+            }
+            append(chunk.subarray(offset));
+        }
+
+        if (pendingCR) {
+            yield line("\r");
+        } else if (partsLength > 0) {
+            yield line("");
+        }
+    }
+
+    return generable(_readLines)();
+}
+
+/** Thrown when following a symbolic link leads back to a link that has already been followed */
+export class SymlinkCycleError extends Error {
+    /** The link that could not be resolved */
+    url: URL;
+
+    constructor(url: URL) {
+        super(`Symbolic link cycle at '${url}'`);
+        this.name = "SymlinkCycleError";
+        this.url = url;
+    }
+}
+
+/** Converts the URL to a folder URL (with a terminal slash) or a file URL (without one) */
+export function withFolderSlash(url: URL, isFolder: boolean): URL {
+    if (isFolder === isFolderPath(url)) {
+        return url;
+    }
+    return new URL(isFolder ? url.href + SEPARATOR : url.href.substring(0, url.href.length - 1));
+}
+
+/**
+ * Follows a symbolic link (and any links that it points to) and returns the
+ * file:// URL of the final target. Folder targets are returned with a terminal slash.
+ * 
+ * If the path is not a symbolic link, returns the URL of the path itself.
+ * 
+ * Returns undefined if the final target does not exist.
+ * Throws SymlinkCycleError if the links form a cycle.
+ * 
+ * @param filePath The symbolic link to resolve
+ */
+export async function resolveLink(filePath: FilePath): Promise<URL | undefined> {
+    const visited = new Set<string>();
+    let url = toFileURL(filePath);
+
+    while (true) {
+        let info: FileSystemType;
+        try {
+            info = await fileSystem.lstat(url);
+        } catch (e) {
+            if (e instanceof Deno.errors.NotFound) {
+                return undefined;
+            }
+            throw e;
+        }
+
+        if (!info.isSymlink) {
+            return withFolderSlash(url, info.isDirectory);
+        }
+
+        const link = withFolderSlash(url, false);
+        if (visited.has(link.href)) {
+            throw new SymlinkCycleError(toFileURL(filePath));
+        }
+        visited.add(link.href);
+
+        // Relative targets are relative to the folder containing the link
+        const target = await fileSystem.readLink(link);
+        url = new URL(target.split(SEPARATOR).map(encodeURIComponent).join(SEPARATOR), link);
+    }
+}
+
+/**
+ * What directoryEntries does with symbolic links:
+ * - follow: yield the link with a terminal slash if its target is a folder
+ *   (links to missing targets and links that are part of a cycle are yielded without a terminal slash, as for "report")
+ * - skip: don't yield links
+ * - report: yield links without following them (so they never have a terminal slash)
+ */
+export type SymlinkPolicy = "follow" | "skip" | "report";
+
+export interface DirectoryEntriesOptions {
+    /** What to do with symbolic links. The default is "follow". */
+    symlinks?: SymlinkPolicy;
+}
+
+/** Returns the final target of a symbolic link, or undefined if the target is missing or the links form a cycle */
+async function followedTarget(url: URL): Promise<URL | undefined> {
+    try {
+        return await resolveLink(url);
+    } catch (e) {
+        if (e instanceof SymlinkCycleError) {
+            return undefined;
+        }
+        throw e;
+    }
+}
+
+/**
+ * Returns the file system entries contained in the specified folder.
+ * 
+ * The URLs are the locations of the entries inside the folder, even for symbolic links
+ * that are followed, so that the names of entries are the names that appear in the folder.
+ */
+export function directoryEntries(folderPath: FilePath, options?: DirectoryEntriesOptions): AsyncIterable<URL> {
+    if (!isFolderPath(folderPath)) {
+        throw `directoryEntries failure: folderPath did not end with a slash '${folderPath}'`;
+    }
+
+    const url = toFileURL(folderPath);
+    const symlinks = options?.symlinks || "follow";
+
+    async function* _directoryEntries() {
+        for await (const child of fileSystem.readDirectory(url)) {
+            const childURL = new URL(encodeURIComponent(child.name) + (child.isDirectory ? SEPARATOR : ""), url);
+            if (child.isSymlink) {
+                if (symlinks === "skip") {
+                    continue;
+                }
+
+                if (symlinks === "follow") {
+                    yield withFolderSlash(childURL, isFolderPath(await followedTarget(childURL) ?? childURL));
+                    continue;
+                }
+            }
+            yield childURL;
+        }
+    }
+    return generable(_directoryEntries)();
+}
+
+/**
+ * Converts a glob pattern to a regular expression that matches relative paths
+ * that use "/" as the separator and don't have a terminal slash.
+ * 
+ * - `*` matches any characters except "/"
+ * - `**` matches any characters including "/", and when followed by "/" it matches any number of folders (including none)
+ * - `?` matches any single character except "/"
+ * - `[abc]`, `[a-z]`, and `[!abc]` match a single character from (or not from) a set
+ * - `{a,b}` matches any of the alternatives
+ * 
+ * A pattern without a "/" matches the last name in the path, so `*.mp4` matches `Season 1/Rose.mp4`.
+ * A pattern with a "/" matches the whole path, so `Season 1/*.mp4` matches `Season 1/Rose.mp4`
+ * but not `Doctor Who/Season 1/Rose.mp4`.
+ * A "/" at the end of a pattern is ignored because paths don't have a terminal slash,
+ * so `Extras/` matches `Extras` and `Season 1/Extras` like `Extras` does.
+ */
+export function globToRegExp(glob: string): RegExp {
+    if ((glob.length > 1) && glob.endsWith(SEPARATOR)) {
+        glob = glob.substring(0, glob.length - 1);
+    }
+    const anchored = glob.includes(SEPARATOR);
+    const pattern = glob.startsWith(SEPARATOR) ? glob.substring(1) : glob;
+
+    let source = "";
+    let braces = 0;
+    let index = 0;
+    while (index < pattern.length) {
+        const c = pattern[index];
+        if (c === "*") {
+            if (pattern[index + 1] === "*") {
+                if (pattern[index + 2] === SEPARATOR) {
+                    source += "(?:.*/)?";
+                    index += 3;
+                } else {
+                    source += ".*";
+                    index += 2;
+                }
+                continue;
+            }
+            source += "[^/]*";
+        } else if (c === "?") {
+            source += "[^/]";
+        } else if ((c === "[") && (pattern.indexOf("]", index + 2) >= 0)) {
+            const end = pattern.indexOf("]", index + 2);
+            const set = pattern.substring(index + 1, end).replace(/\\/g, "\\\\");
+            source += set.startsWith("!") ? `[^${set.substring(1)}]` : `[${set}]`;
+            index = end + 1;
+            continue;
+        } else if (c === "{") {
+            ++braces;
+            source += "(?:";
+        } else if ((c === "}") && (braces > 0)) {
+            --braces;
+            source += ")";
+        } else if ((c === ",") && (braces > 0)) {
+            source += "|";
+        } else {
+            source += c.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        }
+        ++index;
+    }
+
+    return new RegExp((anchored ? "^" : "(?:^|/)") + source + "$");
+}
+
+/** Returns the decoded name of the last file or folder in a URL */
+function lastName(url: URL): string {
+    const path = isFolderPath(url) ? url.pathname.substring(0, url.pathname.length - 1) : url.pathname;
+    return decodeURIComponent(path.substring(path.lastIndexOf(SEPARATOR) + 1));
+}
+
+/**
+ * Returns a string that identifies a folder no matter which path was used to reach it
+ * (the device and inode if available, otherwise the URL after following links)
+ */
+async function folderIdentity(folder: URL): Promise<string | undefined> {
+    const target = await resolveLink(withFolderSlash(folder, false));
+    if (target === undefined) {
+        return undefined;
+    }
+
+    const info = await fileSystem.lstat(target);
+    return (info.ino !== null) ? `${info.dev}:${info.ino}` : target.href;
+}
+
+export interface WalkOptions {
+    /**
+     * The maximum depth of entries to return.
+     * The entries directly inside the folder have a depth of 1.
+     * The default is no limit.
+     */
+    maxDepth?: number;
+
+    /**
+     * Glob patterns (see globToRegExp) for the entries to return, matched against the path relative to the folder.
+     * Folders that don't match are still searched.
+     * The default is to return all entries.
+     */
+    include?: string[];
+
+    /**
+     * Glob patterns (see globToRegExp) for the entries to leave out, matched against the path relative to the folder.
+     * Folders that match are not searched.
+     */
+    exclude?: string[];
+
+    /** Whether to return and search entries whose names start with a period. The default is "include". */
+    hidden?: "include" | "exclude";
+
+    /**
+     * The order of entries within each folder: "none" uses the order provided by the file system,
+     * "name" sorts by name (with numbers in numeric order), or you can provide a comparison function.
+     * The default is "none".
+     */
+    sort?: "none" | "name" | ((a: URL, b: URL) => number);
+
+    /**
+     * Called for each folder before it is searched. Return true to skip the contents of the folder.
+     * The folder itself is still returned if it matches the other options.
+     */
+    prune?: (folder: URL, depth: number) => (Promise<boolean> | boolean);
+
+    /** What to do with symbolic links (see directoryEntries). The default is "follow". */
+    symlinks?: SymlinkPolicy;
+}
+
+function compareNames(a: URL, b: URL): number {
+    return lastName(a).localeCompare(lastName(b), "en", { numeric: true });
+}
+
+/**
+ * Returns the files and folders inside the specified folder and all its subfolders.
+ * 
+ * Each folder is returned before its contents.
+ * 
+ * When symbolic links are followed, a folder that leads back to one of the folders
+ * that contains it is returned, but it isn't searched again.
+ * 
+ * @param folderPath The folder to search. Must end with a slash.
+ * @param options Controls the depth, filtering, and ordering of the results
+ */
+export function walk(folderPath: FilePath, options?: WalkOptions): AsyncIterable<URL> {
+    if (!isFolderPath(folderPath)) {
+        throw `walk failure: folderPath did not end with a slash '${folderPath}'`;
+    }
+
+    const root = toFileURL(folderPath);
+    const maxDepth = options?.maxDepth ?? Infinity;
+    const include = options?.include?.map(globToRegExp);
+    const exclude = (options?.exclude || []).map(globToRegExp);
+    const hidden = options?.hidden || "include";
+    const sort = options?.sort || "none";
+    const symlinks = options?.symlinks || "follow";
+    const prune = options?.prune;
+
+    function relativePath(url: URL): string {
+        const path = decodeURIComponent(url.pathname.substring(root.pathname.length));
+        return isFolderPath(path) ? path.substring(0, path.length - 1) : path;
+    }
+
+    async function* _walk() {
+        // The identities of the folders on the current path, used to detect cycles through symbolic links
+        const ancestors = new Set<string>();
+
+        async function* visit(folder: URL, depth: number): AsyncGenerator<URL> {
+            const identity = (symlinks === "follow") ? await folderIdentity(folder) : undefined;
+            if (identity !== undefined) {
+                if (ancestors.has(identity)) {
+                    return;
+                }
+                ancestors.add(identity);
+            }
+
+            try {
+                const entries = directoryEntries(folder, { symlinks });
+                const children = (sort === "none") ? entries : (await arrayFrom(entries)).sort((sort === "name") ? compareNames : sort);
+
+                for await (const child of children) {
+                    if ((hidden === "exclude") && lastName(child).startsWith(".")) {
+                        continue;
+                    }
+
+                    const path = relativePath(child);
+                    if (exclude.some(pattern => pattern.test(path))) {
+                        continue;
+                    }
+
+                    if ((include === undefined) || include.some(pattern => pattern.test(path))) {
+                        yield child;
+                    }
+
+                    if (isFolderPath(child) && (depth < maxDepth)) {
+                        if ((prune === undefined) || !(await prune(child, depth))) {
+                            yield* visit(child, depth + 1);
+                        }
+                    }
+                }
+            } finally {
+                if (identity !== undefined) {
+                    ancestors.delete(identity);
+                }
+            }
+        }
+
+        yield* visit(root, 1);
+    }
+
+    return generable(_walk)();
+}
+
+/**
+ * Removes a file, or a folder and everything in it.
+ * Symbolic links are removed, not followed, so nothing outside the folder is removed.
+ * 
+ * @param filePath The file or folder to remove
+ */
+export async function removeTree(filePath: FilePath): Promise<void> {
+    const url = toFileURL(filePath);
+    const status = await stat(url);
+    if (status.kind === "folder") {
+        const descendants = await arrayFrom(walk(withFolderSlash(url, true), { symlinks: "report" }));
+        for (const descendant of descendants.reverse()) {
+            await remove(descendant);
+        }
+    }
+    await remove(url);
+}
+
+/** Options for makeTempFolder and makeTempFile */
+export interface TempOptions {
+    /** The folder in which to create the temporary file or folder. The default is the system's temporary folder. */
+    folder?: FilePath;
+
+    /** The start of the name */
+    prefix?: string;
+
+    /** The end of the name (such as an extension) */
+    suffix?: string;
+
+    /** Don't remove the file or folder when the process exits. The default is false. */
+    keep?: boolean;
+}
+
+/** Temporary files and folders that are removed when the process exits */
+const temporaries = new Map<string, FileSystem>();
+
+let temporaryCleanupInstalled = false;
+
+/** Returns the system's temporary folder */
+function systemTempFolder(): URL {
+    let folder: string | undefined;
+    try {
+        folder = Deno.env.get("TMPDIR") ?? Deno.env.get("TEMP") ?? Deno.env.get("TMP");
+    } catch {
+        // No permission to read the environment
+    }
+    return withFolderSlash(toFileURL(folder ?? "/tmp/"), true);
+}
+
+/** Removes the registered temporaries synchronously because async work can't happen during exit */
+function removeTemporariesSync(): void {
+    for (const [href, owner] of temporaries) {
+        // Temporaries in other file systems (such as memory) disappear with the process
+        if (owner === denoFileSystem) {
+            try {
+                Deno.removeSync(new URL(href), { recursive: true });
+            } catch {
+                // Already removed
+            }
+        }
+    }
+    temporaries.clear();
+}
+
+/** Registers a temporary file or folder for removal when the process exits */
+function registerTemporary(url: URL): void {
+    temporaries.set(url.href, fileSystem);
+
+    if (temporaryCleanupInstalled) {
+        return;
+    }
+    temporaryCleanupInstalled = true;
+
+    globalThis.addEventListener("unload", removeTemporariesSync);
+}
+
+let temporarySignalCleanupInstalled = false;
+
+/**
+ * Removes temporary files and folders and exits when the process receives SIGINT or SIGTERM.
+ * 
+ * Interrupting the process doesn't fire the unload event, so temporaries are only removed
+ * on exit unless the application calls this. It's opt-in because the listeners replace the default
+ * handling of the signals, so only an application that doesn't handle them itself should call it.
+ */
+export function removeTemporariesOnSignal(): void {
+    if (temporarySignalCleanupInstalled) {
+        return;
+    }
+    temporarySignalCleanupInstalled = true;
+
+    for (const signal of ["SIGINT", "SIGTERM"] as const) {
+        try {
+            Deno.addSignalListener(signal, () => {
+                removeTemporariesSync();
+                Deno.exit(128 + ((signal === "SIGINT") ? 2 : 15));
+            });
+        } catch {
+            // The signal is not supported on this platform
+        }
+    }
+}
+
+function tempName(options?: TempOptions): string {
+    const random = dataToHex(crypto.getRandomValues(new Uint8Array(8)));
+    return `${options?.prefix ?? ""}${random}${options?.suffix ?? ""}`;
 }
 
 /**
- * Reads an entire file if it is smaller than the internal or external buffer.
- * If the file is not smaller than the buffer used, an exception is thrown.
+ * Creates a new, empty folder with a unique name and returns its file:// URL (with a terminal slash).
+ * Unless `keep` is specified, the folder and everything in it is removed when the process exits
+ * (or is interrupted, if removeTemporariesOnSignal has been called).
  * 
- * The internal buffer is 4 MB and is used if no external buffer is supplied.
- * The external buffer is optionally allocated and provided by the caller.
- * 
- * This function is suitable for reading small files of predictable size.
- * For reading large files, use readRanges instead.
+ * @param options Where to create the folder and how to name it
+ */
+export async function makeTempFolder(options?: TempOptions): Promise<URL> {
+    const parent = withFolderSlash((options?.folder !== undefined) ? toFileURL(options.folder) : systemTempFolder(), true);
+    await makeDirectory(parent);
+
+    while (true) {
+        const url = new URL(encodeURIComponent(tempName(options)) + SEPARATOR, parent);
+        try {
+            await fileSystem.makeDirectory(url, { recursive: false });
+        } catch (e) {
+            if (e instanceof Deno.errors.AlreadyExists) {
+                continue;
+            }
+            throw e;
+        }
+
+        if (!options?.keep) {
+            registerTemporary(url);
+        }
+        return url;
+    }
+}
+
+/**
+ * Creates a new, empty file with a unique name and returns its file:// URL.
+ * Unless `keep` is specified, the file is removed when the process exits
+ * (or is interrupted, if removeTemporariesOnSignal has been called).
  * 
- * @param fileOrPath - A file, file:// URL, or file path
- * @param buffer - An optional buffer to be used for reading the data
+ * @param options Where to create the file and how to name it
+ */
+export async function makeTempFile(options?: TempOptions): Promise<URL> {
+    const parent = withFolderSlash((options?.folder !== undefined) ? toFileURL(options.folder) : systemTempFolder(), true);
+    await makeDirectory(parent);
+
+    while (true) {
+        const url = new URL(encodeURIComponent(tempName(options)), parent);
+        try {
+            await writeFile(url, new Uint8Array(0), { createNew: true });
+        } catch (e) {
+            if (e instanceof Deno.errors.AlreadyExists) {
+                continue;
+            }
+            throw e;
+        }
+
+        if (!options?.keep) {
+            registerTemporary(url);
+        }
+        return url;
+    }
+}
+
+/**
+ * Removes a temporary file or folder now instead of when the process exits.
  * 
- * @return - Returns the entire contents of the file if the internal or external buffer
- *  is large enough to hold it. Otherwise, an exception is thrown.
+ * @param filePath A URL returned by makeTempFolder or makeTempFile
  */
-export async function readFile(fileOrPath: FileOrPath, buffer?: Uint8Array): Promise<Uint8Array> {
-    const length = (buffer ? buffer.length : ByteRangeDefaultLength);
-    const result = await readRange(fileOrPath, { start: 0, length }, buffer);
-    if (result.length >= length) {
-        throw `File is not less than ${length} bytes, so unable to retrieve the whole file.`;
+export async function removeTemp(filePath: FilePath): Promise<void> {
+    const url = toFileURL(filePath);
+    try {
+        await removeTree(url);
+    } catch (e) {
+        if (!(e instanceof Deno.errors.NotFound)) {
+            throw e;
+        }
     }
-    return result;
+    temporaries.delete(url.href);
 }
 
 /**
- * Reads an entire file if it is smaller than the internal or external buffer.
- * If the file is not smaller than the buffer used, an exception is thrown.
+ * Creates a temporary folder, calls `fn` with its URL, and removes the folder
+ * and everything in it when `fn` completes, whether it succeeds or throws.
  * 
- * Like readFile except it returns a string.
+ * @param fn The function that uses the folder
+ * @param options Where to create the folder and how to name it
  */
-export async function readTextFile(fileOrPath: FileOrPath, buffer?: Uint8Array): Promise<string> {
-    const data = await readFile(fileOrPath, buffer);
-    return new TextDecoder().decode(data);
+export async function withTempFolder<T>(fn: (folder: URL) => Promise<T> | T, options?: TempOptions): Promise<T> {
+    const folder = await makeTempFolder({ ...options, keep: false });
+    try {
+        return await fn(folder);
+    } finally {
+        await removeTemp(folder);
+    }
 }
 
-/** Returns the file system entries contained in the specified folder */
-export function directoryEntries(folderPath: FilePath): AsyncIterable<URL> {
-    if (!isFolderPath(folderPath)) {
-        throw `directoryEntries failure: folderPath did not end with a slash '${folderPath}'`;
+/** The kinds of change reported by watch */
+export type WatchEventKind = "created" | "modified" | "removed" | "renamed";
+
+/** A change to a file or folder reported by watch */
+export interface WatchEvent {
+    kind: WatchEventKind;
+
+    /** The file or folder that changed. Folders have a terminal slash unless they were removed. */
+    url: URL;
+
+    /** The previous location of a renamed file or folder */
+    from?: URL;
+}
+
+export interface WatchOptions {
+    /** Watch subfolders as well as the folder itself. The default is true. */
+    recursive?: boolean;
+
+    /** Globs matched against the path relative to the watched folder. If provided, only matching changes are reported. */
+    include?: string[];
+
+    /** Globs matched against the path relative to the watched folder. Matching changes are not reported. */
+    exclude?: string[];
+
+    /** The number of milliseconds without changes before a batch is reported. The default is 100. */
+    debounce?: number;
+
+    /** The maximum number of milliseconds a change waits to be reported during continuous activity. The default is 1000. */
+    maxDelay?: number;
+}
+
+/**
+ * Reports changes to the files and folders in a folder as batches of events.
+ * Iterate over the watcher to receive the batches, and call `close` to stop watching.
+ * 
+ * Batches are kept in an AsyncList so every iterator sees every batch from the start.
+ * If the watcher fails, iteration finishes and `error` holds the reason.
+ */
+export class FolderWatcher implements AsyncIterable<WatchEvent[]> {
+    folder: URL;
+    batches = new AsyncList<WatchEvent[]>();
+
+    /** The error that stopped the watcher, if any */
+    error?: unknown;
+
+    watcher: FileSystemWatcher;
+    include?: RegExp[];
+    exclude: RegExp[];
+    debounce: number;
+    maxDelay: number;
+
+    pending = new Map<string, { kind: WatchEventKind, from?: URL }>();
+    pendingSince?: number;
+    timer?: ReturnType<typeof setTimeout>;
+    flushing: Promise<void> = Promise.resolve();
+
+    constructor(folderPath: FilePath, options?: WatchOptions) {
+        this.folder = withFolderSlash(toFileURL(folderPath), true);
+        this.include = options?.include?.map(globToRegExp);
+        this.exclude = options?.exclude?.map(globToRegExp) ?? [];
+        this.debounce = options?.debounce ?? 100;
+        this.maxDelay = options?.maxDelay ?? 1000;
+        this.watcher = fileSystem.watch(toFilePath(this.folder), { recursive: options?.recursive ?? true });
+        this.pump();
     }
 
-    const url = toFileURL(folderPath);
+    [Symbol.asyncIterator](): AsyncIterator<WatchEvent[]> {
+        return this.batches[Symbol.asyncIterator]();
+    }
 
-    async function* _directoryEntries() {
-        for await (const child of Deno.readDir(url)) {
-            const childURL = new URL(encodeURIComponent(child.name) + (child.isDirectory ? SEPARATOR : ""), url);
-            // TODO Deno.readLink doesn't accept URL
-            // TODO Need to determine if target is a directory to ensure terminal slash on URL
-            // if (child.isSymlink) {
-            //     const target = await Deno.readLink(childURL);
-            //     yield toFileURL(target);
-            // }
-            yield childURL;
+    /** Stops watching. Changes that are waiting to be reported are reported first. */
+    close(): void {
+        this.watcher.close();
+    }
+
+    /** Returns true if the change should be reported */
+    matches(url: URL): boolean {
+        if (!url.href.startsWith(this.folder.href) || (url.href === this.folder.href)) {
+            return false;
         }
+        const path = decodeURIComponent(url.pathname.substring(this.folder.pathname.length)).replace(/\/$/, "");
+        return (!this.include || this.include.some(re => re.test(path))) && !this.exclude.some(re => re.test(path));
     }
-    return generable(_directoryEntries)();
+
+    async pump(): Promise<void> {
+        try {
+            for await (const event of this.watcher) {
+                await this.add(event);
+            }
+        } catch (e) {
+            this.error ??= e;
+        } finally {
+            clearTimeout(this.timer);
+            this.flush();
+            await this.flushing;
+            this.batches.close();
+        }
+    }
+
+    /** Stops watching because of an error. Iterators finish and `error` is set. */
+    fail(e: unknown): void {
+        this.error ??= e;
+        clearTimeout(this.timer);
+        this.watcher.close();
+        this.batches.close();
+    }
+
+    /** Combines a change with the changes that are waiting to be reported */
+    async add(event: FileSystemEvent): Promise<void> {
+        const urls = event.paths.map(path => toFileURL(path));
+        const pending = this.pending;
+
+        const created = (url: URL) => {
+            const previous = pending.get(url.href);
+            if (previous === undefined) {
+                pending.set(url.href, { kind: "created" });
+            } else if (previous.kind === "removed") {
+                pending.set(url.href, { kind: "modified" });
+            }
+        };
+
+        const modified = (url: URL) => {
+            if (!pending.has(url.href)) {
+                pending.set(url.href, { kind: "modified" });
+            }
+        };
+
+        const removed = (url: URL) => {
+            const previous = pending.get(url.href);
+            pending.delete(url.href);
+            if (previous?.kind === "renamed") {
+                pending.set(previous.from!.href, { kind: "removed" });
+            } else if (previous?.kind !== "created") {
+                pending.set(url.href, { kind: "removed" });
+            }
+        };
+
+        const renamed = (from: URL, to: URL) => {
+            const previous = pending.get(from.href);
+            pending.delete(from.href);
+            if (previous?.kind === "created") {
+                pending.set(to.href, { kind: "created" });
+            } else {
+                pending.set(to.href, { kind: "renamed", from: previous?.from ?? from });
+            }
+        };
+
+        switch (event.kind) {
+            case "access":
+                return;
+            case "create":
+                urls.filter(url => this.matches(url)).forEach(created);
+                break;
+            case "remove":
+                urls.filter(url => this.matches(url)).forEach(removed);
+                break;
+            case "rename":
+                if (urls.length === 2) {
+                    const [from, to] = urls;
+                    if (this.matches(from) && this.matches(to)) {
+                        renamed(from, to);
+                    } else if (this.matches(from)) {
+                        removed(from);
+                    } else if (this.matches(to)) {
+                        created(to);
+                    }
+                } else {
+                    // Only one side of the rename is known
+                    for (const url of urls.filter(url => this.matches(url))) {
+                        if (await exists(url)) {
+                            created(url);
+                        } else {
+                            removed(url);
+                        }
+                    }
+                }
+                break;
+            default:
+                urls.filter(url => this.matches(url)).forEach(modified);
+                break;
+        }
+
+        if (pending.size === 0) {
+            return;
+        }
+
+        const now = Date.now();
+        this.pendingSince ??= now;
+        clearTimeout(this.timer);
+        if (now - this.pendingSince >= this.maxDelay) {
+            this.flush();
+        } else {
+            this.timer = setTimeout(() => this.flush(), this.debounce);
+        }
+    }
+
+    /** Reports the changes that are waiting */
+    flush(): void {
+        const changes = [...this.pending];
+        this.pending = new Map();
+        this.pendingSince = undefined;
+        if (changes.length === 0) {
+            return;
+        }
+
+        this.flushing = this.flushing.then(async () => {
+            if (this.error !== undefined) {
+                return;
+            }
+            const batch: WatchEvent[] = [];
+            for (const [href, { kind, from }] of changes) {
+                let url = new URL(href);
+                if (kind !== "removed") {
+                    try {
+                        url = withFolderSlash(url, (await stat(url)).kind === "folder");
+                    } catch (e) {
+                        if (!(e instanceof Deno.errors.NotFound)) {
+                            throw e;
+                        }
+                    }
+                }
+                batch.push((from !== undefined) ? { kind, url, from } : { kind, url });
+            }
+            this.batches.push(batch);
+        }).catch(e => this.fail(e));
+    }
+}
+
+/**
+ * Watches a folder for changes and reports them as batches of events.
+ * Bursts of changes are combined, so creating and then writing a file is reported
+ * as a single "created" event, and a file that is created and removed is not reported at all.
+ * 
+ * ```
+ * const watcher = watch("/Volumes/WD01/TV/", { include: ["*.mp4"] });
+ * for await (const batch of watcher) {
+ *     for (const event of batch) {
+ *         console.log(event.kind, event.url.href);
+ *     }
+ * }
+ * ```
+ * 
+ * @param folderPath The folder to watch
+ * @param options Recursion, filters, and timing
+ */
+export function watch(folderPath: FilePath, options?: WatchOptions): FolderWatcher {
+    return new FolderWatcher(folderPath, options);
 }
 
 /** The name and extension of a file or folder. */
@@ -586,6 +2661,131 @@ export const MIME_EXTENSIONS: Record<string, string> = {
     "audio/x-mpegurl": "m3u8",
 };
 
+/** The number of bytes that sniffMimeType reads from the start of a file */
+const SNIFF_LENGTH = 4 * 1024;
+
+/** The length of an MPEG transport stream packet, and of a BDAV (M2TS) packet which has a 4-byte timecode prefix */
+const MPEG_TS_PACKET_LENGTH = 188;
+const MPEG_M2TS_PACKET_LENGTH = 192;
+const MPEG_TS_SYNC_BYTE = 0x47;
+
+/** ftyp brands that identify audio or M4V files. Other brands are treated as MP4 video. */
+const FTYP_BRANDS: Record<string, string> = {
+    "M4A ": "audio/m4a",
+    "M4B ": "audio/m4a",
+    "M4P ": "audio/m4a",
+    "M4V ": "video/x-m4v",
+    "M4VH": "video/x-m4v",
+    "M4VP": "video/x-m4v",
+    "qt  ": "video/quicktime",
+};
+
+function startsWithBytes(data: Uint8Array, bytes: number[], offset = 0): boolean {
+    return (data.length >= offset + bytes.length) && bytes.every((byte, index) => data[offset + index] === byte);
+}
+
+function latin1(data: Uint8Array, start: number, end: number): string {
+    return String.fromCharCode(...data.subarray(start, end));
+}
+
+/** Returns true if there is a sync byte at the start of every packet in the data (and at least two packets) */
+function hasSyncBytes(data: Uint8Array, packetLength: number, offset: number): boolean {
+    const count = Math.min(4, Math.floor((data.length - offset) / packetLength));
+    if (count < 2) {
+        return false;
+    }
+    for (let packet = 0; packet < count; ++packet) {
+        if (data[offset + packet * packetLength] !== MPEG_TS_SYNC_BYTE) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/** Returns true if the data contains control characters that do not appear in text files */
+function isBinary(data: Uint8Array): boolean {
+    return data.some(byte => (byte <= 0x08) || (byte === 0x0B) || ((byte >= 0x0E) && (byte <= 0x1A)) || ((byte >= 0x1C) && (byte <= 0x1F)));
+}
+
+const ttmlRE = /^(?:<\?xml[^>]*>\s*)?(?:<!--[^]*?-->\s*)*<(?:\w+:)?tt[\s>]/;
+const webvttRE = /^WEBVTT(?:[ \t\r\n]|$)/;
+const htmlRE = /^<(?:!doctype\s+html|html|head|body)[\s>]/i;
+
+/** Determines the type of a text file from the start of its text */
+function sniffText(text: string): string {
+    text = text.trimStart();
+    if (webvttRE.test(text)) {
+        return "text/vtt";
+    }
+    if (htmlRE.test(text)) {
+        return "text/html";
+    }
+    if (ttmlRE.test(text)) {
+        return "application/ttml+xml";
+    }
+    if (text.startsWith("<?xml")) {
+        return "text/xml";
+    }
+    return "text/plain";
+}
+
+/**
+ * Determines the MIME type of a file from the bytes at the start of the file.
+ * 
+ * Use this when a file has no extension or when the extension could be wrong or ambiguous,
+ * such as `.ts` which is used for both MPEG transport streams and TypeScript.
+ * 
+ * Recognizes MP4/M4V/M4A (using the `ftyp` brand), MPEG transport streams,
+ * MP3 (with or without an ID3 tag), JPEG, PNG, WebVTT, TTML, XML, and HTML.
+ * Other files that look like text (including UTF-8 and UTF-16 files with a byte order mark) are text/plain.
+ * 
+ * Returns undefined if the type is not recognized.
+ * 
+ * @param fileOrPath - A file, file:// URL, or file path
+ */
+export async function sniffMimeType(fileOrPath: FileOrPath): Promise<string | undefined> {
+    const data = await readRange(fileOrPath, { start: 0, length: SNIFF_LENGTH });
+
+    if ((data.length >= 12) && (latin1(data, 4, 8) === "ftyp")) {
+        return FTYP_BRANDS[latin1(data, 8, 12)] || "video/mp4";
+    }
+
+    if (startsWithBytes(data, [0xFF, 0xD8, 0xFF])) {
+        return "image/jpeg";
+    }
+
+    if (startsWithBytes(data, [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A])) {
+        return "image/png";
+    }
+
+    if (hasSyncBytes(data, MPEG_TS_PACKET_LENGTH, 0) || hasSyncBytes(data, MPEG_M2TS_PACKET_LENGTH, 4)) {
+        return "video/mp2t";
+    }
+
+    // Byte order marks (before MPEG audio because FF FE also looks like a frame header)
+    if (startsWithBytes(data, [0xEF, 0xBB, 0xBF])) {
+        return sniffText(new TextDecoder("utf-8").decode(data.subarray(3), { stream: true }));
+    }
+    if (startsWithBytes(data, [0xFE, 0xFF])) {
+        return sniffText(new TextDecoder("utf-16be").decode(data.subarray(2), { stream: true }));
+    }
+    if (startsWithBytes(data, [0xFF, 0xFE])) {
+        return sniffText(new TextDecoder("utf-16le").decode(data.subarray(2), { stream: true }));
+    }
+
+    // ID3 tag or an MPEG audio frame header (layers I-III; layer bits of 00 are ADTS AAC)
+    if (startsWithBytes(data, [0x49, 0x44, 0x33]) ||
+        ((data.length >= 2) && (data[0] === 0xFF) && ((data[1] & 0xE0) === 0xE0) && ((data[1] & 0x06) !== 0))) {
+        return "audio/mpeg";
+    }
+
+    if ((data.length === 0) || isBinary(data)) {
+        return undefined;
+    }
+
+    return sniffText(new TextDecoder("utf-8").decode(data, { stream: true }));
+}
+
 
 const mimeFromContentTypeRE = /^\s*(?<mime>[^;\s]*)(?:;|\s|$)/;
 
@@ -596,10 +2796,165 @@ function getMimeType(response: Response): string | undefined {
     }
 }
 
+/** The progress of a download by fetchToFile */
+export interface FetchProgress {
+    /** The temporary file that is receiving the data */
+    destination: URL;
+
+    /** The number of bytes in the temporary file, including any bytes from an earlier attempt */
+    received: number;
+
+    /** The size of the complete file, if the server provided it */
+    total?: number;
+}
+
+export interface FetchToFileOptions {
+    /** Whether to derive the extension from the Content-Type of the response. The default is true. */
+    extensionFromContentType?: boolean;
+
+    /** Whether to continue from the end of an existing `.download` file. The default is true. */
+    resume?: boolean;
+
+    /** Called each time a chunk of data has been written to the temporary file */
+    onProgress?: (progress: FetchProgress) => void;
+}
+
+const contentRangeTotalRE = /^\s*bytes\s+[^/]*\/\s*(?<total>\d+)\s*$/i;
+
+/** Returns the size of the complete file from the Content-Range or Content-Length header */
+function getTotalLength(response: Response, start: number): number | undefined {
+    const contentRange = response.headers.get("Content-Range");
+    if (contentRange) {
+        const total = contentRangeTotalRE.exec(contentRange)?.groups?.total;
+        if (total !== undefined) {
+            return parseInt(total, 10);
+        }
+    }
+
+    const contentLength = response.headers.get("Content-Length");
+    if (contentLength) {
+        return start + parseInt(contentLength, 10);
+    }
+}
+
+/** Returns the size of the file or 0 if it doesn't exist */
+async function existingLength(filePath: FilePath): Promise<number> {
+    try {
+        return (await stat(filePath)).size;
+    } catch (e) {
+        if (e instanceof Deno.errors.NotFound) {
+            return 0;
+        }
+        throw e;
+    }
+}
+
+/** Removes a file if it exists */
+async function removeIfExists(filePath: FilePath): Promise<void> {
+    try {
+        await remove(filePath);
+    } catch (e) {
+        if (!(e instanceof Deno.errors.NotFound)) {
+            throw e;
+        }
+    }
+}
+
+/** The extension added to the name of a `.download` file to name the file that holds its validator */
+const VALIDATOR_EXTENSION = "validator";
+
+/** A `.download` file left by an earlier attempt of fetchToFile */
+interface PartialDownload {
+    url: URL;
+    length: number;
+
+    /** The ETag or Last-Modified header of the response that started the download */
+    validator?: string;
+}
+
+/** Returns the strong ETag or the Last-Modified header of a response, the values that If-Range accepts */
+function getValidator(response: Response): string | undefined {
+    const etag = response.headers.get("ETag");
+    if (etag && !etag.startsWith("W/")) {
+        return etag;
+    }
+    return response.headers.get("Last-Modified") ?? undefined;
+}
+
+const contentRangeStartRE = /^\s*bytes\s+(?<start>\d+)\s*-/i;
+
+/** Returns the position of the first byte of a 206 response from its Content-Range header */
+function getRangeStart(response: Response): number | undefined {
+    const start = contentRangeStartRE.exec(response.headers.get("Content-Range") ?? "")?.groups?.start;
+    if (start !== undefined) {
+        return parseInt(start, 10);
+    }
+}
+
+/**
+ * Returns the `.download` file for `name` in a folder, or undefined if there isn't one.
+ * If the extension comes from the Content-Type, `extension` is only the fallback, so a `name.ext.download` file
+ * with any single extension is returned. Names with more dots belong to other downloads:
+ * "Rose.Extended.mp4.download" is not a download of "Rose".
+ */
+async function findPartialDownload(location: URL, name: string, extension: string, anyExtension: boolean): Promise<PartialDownload | undefined> {
+    let url: URL | undefined = new URL(encodeURIComponent(`${name}.${extension}.${DOWNLOAD_EXTENSION}`), location);
+    if (anyExtension && !(await exists(url))) {
+        url = undefined;
+        const prefix = `${name}.`;
+        const suffix = `.${DOWNLOAD_EXTENSION}`;
+        try {
+            for await (const entry of directoryEntries(new URL(".", location), { symlinks: "skip" })) {
+                const entryName = lastName(entry);
+                if (isFolderPath(entry) || !entryName.startsWith(prefix) || !entryName.endsWith(suffix)) {
+                    continue;
+                }
+                const entryExtension = entryName.substring(prefix.length, entryName.length - suffix.length);
+                if ((entryExtension !== "") && !entryExtension.includes(".")) {
+                    url = entry;
+                    break;
+                }
+            }
+        } catch (e) {
+            if (!(e instanceof Deno.errors.NotFound)) {
+                throw e;
+            }
+        }
+    }
+
+    if (url === undefined) {
+        return;
+    }
+
+    const length = await existingLength(url);
+    if (length === 0) {
+        return;
+    }
+
+    try {
+        const validator = await readTextFile(new URL(`${url.href}.${VALIDATOR_EXTENSION}`));
+        return { url, length, validator };
+    } catch (e) {
+        if (!(e instanceof Deno.errors.NotFound)) {
+            throw e;
+        }
+        return { url, length };
+    }
+}
+
 /**
  * Fetches a file from a URL, writes it to a file named `name.extension.download`
  * and when the file is completely written, renames the local file to `name.extension`.
  * 
+ * The data is streamed to disk as it arrives, so large files don't need to fit in memory.
+ * 
+ * If the download fails, the `.download` file is left in place. The next call for the same
+ * file continues from the end of the `.download` file by sending an HTTP Range request.
+ * The ETag or Last-Modified header of the response that started the download is kept in a
+ * `.download.validator` file and sent as If-Range, so the server only sends the rest of the file
+ * if the file hasn't changed. If the server sends the whole file, a range that doesn't start
+ * at the end of the `.download` file, or a file of a different type, the download starts again from the beginning.
+ * 
  * By default the file extension is calculated from the Content-Type header provided
  * by the file server. You can force a specific extension to be used by setting `options`
  * to `{ extensionFromContentType: false }`.
@@ -610,33 +2965,98 @@ function getMimeType(response: Response): string | undefined {
  * @param folderPath The folder in which to write the downloaded file
  * @param name The name to use for the downloaded file
  * @param extension The fallback extension or the specified extension for the downloaded file
- * @param options Allows you to control whether the file extension is derived from the Content-Type of the file provided by the server.
+ * @param options Allows you to control whether the file extension is derived from the Content-Type of the file provided by the server,
+ *  whether to resume partial downloads, and to receive progress notifications.
  */
 export async function fetchToFile(
     url: URL | string,
     folderPath: FilePath, name: string, extension: string,
-    options: { extensionFromContentType: boolean } = { extensionFromContentType: true }
+    options: FetchToFileOptions = { extensionFromContentType: true }
 ): Promise<URL> {
 
-    const response = await fetch_(url);
+    const location = toFileURL(folderPath);
+    const extensionFromContentType = options.extensionFromContentType ?? true;
+
+    // If there's data from an earlier attempt, ask the server for the rest of the file
+    const partial = (options.resume ?? true) ? await findPartialDownload(location, name, extension, extensionFromContentType) : undefined;
+
+    let start = 0;
+    let response: Response;
+    if (partial !== undefined) {
+        const headers = new Headers({ "Range": `bytes=${partial.length}-` });
+        if (partial.validator !== undefined) {
+            headers.set("If-Range", partial.validator);
+        }
+        response = await fetch_(url, { headers });
+        if ((response.status === 206) && (getRangeStart(response) === partial.length)) {
+            start = partial.length;
+        } else if ((response.status === 206) || (response.status === 416)) {
+            // The range doesn't continue the partial file or the partial file doesn't fit the current file on the server so start again
+            await response.body?.cancel();
+            response = await fetch_(url);
+        }
+    } else {
+        response = await fetch_(url);
+    }
+
     let ext = extension;
-    if (options.extensionFromContentType) {
+    if (extensionFromContentType) {
         const mimeType = getMimeType(response);
         ext = (mimeType && MIME_EXTENSIONS[mimeType]) || extension;
     }
 
-    // TODO - assuming small files here
-    const data = new Uint8Array(await response.arrayBuffer());
+    const tempPath = new URL(encodeURIComponent(`${name}.${ext}.${DOWNLOAD_EXTENSION}`), location);
+    const validatorPath = new URL(`${tempPath.href}.${VALIDATOR_EXTENSION}`);
+    const filePath = new URL(encodeURIComponent(`${name}.${ext}`), location);
 
-    const location = toFileURL(folderPath);
+    if ((partial !== undefined) && (partial.url.href !== tempPath.href)) {
+        // The partial file is for a different type of file
+        await removeIfExists(partial.url);
+        await removeIfExists(new URL(`${partial.url.href}.${VALIDATOR_EXTENSION}`));
+        if (start !== 0) {
+            await response.body?.cancel();
+            response = await fetch_(url);
+            start = 0;
+        }
+    }
+
+    if (!response.ok) {
+        await response.body?.cancel();
+        throw new Error(`fetchToFile failure: ${response.status} ${response.statusText} '${url}'`);
+    }
+
+    // Remember which version of the file is being downloaded so that a later attempt can resume safely
+    if (start === 0) {
+        const validator = getValidator(response);
+        if (validator !== undefined) {
+            await writeTextFile(validatorPath, validator);
+        } else {
+            await removeIfExists(validatorPath);
+        }
+    }
+
+    const total = getTotalLength(response, start);
+    const body = response.body;
+
+    async function* chunks() {
+        if (body === null) {
+            return;
+        }
+
+        let received = start;
+        for await (const chunk of body) {
+            yield chunk;
+            received += chunk.length;
+            options.onProgress?.({ destination: tempPath, received, total });
+        }
+    }
 
     // Write to a temporary file
-    const tempPath = new URL(encodeURIComponent(`${name}.${ext}.download`), location);
-    await writeFile(tempPath, data);
+    await writeRanges(tempPath, chunks(), { start, truncate: (start === 0) });
 
     // Once all data written, rename the file
-    const filePath = new URL(encodeURIComponent(`${name}.${ext}`), location);
-    await Deno.rename(toFilePath(tempPath), toFilePath(filePath));
+    await rename(tempPath, filePath);
+    await removeIfExists(validatorPath);
 
     return filePath;
 }
@@ -671,6 +3091,7 @@ export async function fetchToFile(
 // Note that none of the functions in this file ask the file system for a file length
 // separately from reading data. The functions are just designed to read the data and
 // deal with whatever is there at the time.
+// If you do need to know the size or modification time of a file, call stat explicitly.
 
 // We use opaque files so there's one obvious way to do things.
 
@@ -699,8 +3120,9 @@ export async function fetchToFile(
 // If you don't have an upper bound on the size of the file, use readRanges.
 
 // Q5. writeFile doesn't take a FileOrPath so you can't pass a File. What's up with that?
-// A5. That's an inconsistency that we should address, but it is what it is right now. If you find it
-// limiting, you can fall back to using Deno functions directly.
+// A5. writeFile replaces the whole file, which only makes sense for a path. If you have an open File,
+// use writeRange, writeRanges, or appendFile which mirror readRange and readRanges.
+// Open the file for writing using `open(path, { write: true })`.
 
 // Q6. Why does readFile with no arguments only read files that are strictly less than 4 MB?
 // A6. Reading large files into memory without thinking about it is a pretty common cause of 
@@ -1,4 +1,4 @@
-import { directoryEntries, fileName, toFileURL } from "./file.ts";
+import { directoryEntries, execute, executePipeline, fileName, pipeline, ProcessError, respawn, run, toFilePath, toFileURL } from "./file.ts";
 import { arrayFrom } from "./utility.ts";
 import { fetch as fileFetch } from "./file.ts";
 
@@ -20,6 +20,43 @@ Deno.test("directoryEntries", async function () {
     console.log(result);
 });
 
+Deno.test("toFileURL", function () {
+    const options = { base: "/Volumes/Media/TV/", home: "/Users/user", windows: false };
+    const cases: [string, string][] = [
+        ["/Volumes/Media/TV/", "file:///Volumes/Media/TV/"],
+        ["Doctor Who/Season 1/", "file:///Volumes/Media/TV/Doctor%20Who/Season%201/"],
+        ["./Doctor Who/../Films/./Up.mp4", "file:///Volumes/Media/TV/Films/Up.mp4"],
+        ["../Films/", "file:///Volumes/Media/Films/"],
+        ["~", "file:///Users/user/"],
+        ["~/Movies/", "file:///Users/user/Movies/"],
+        ["/What?#/", "file:///What%3F%23/"],
+        ["file:///Volumes/Media/../TV/", "file:///Volumes/TV/"],
+        ["D:\\TV\\Doctor Who\\", "file:///Volumes/Media/TV/Doctor%20Who/"],
+    ];
+
+    for (const [path, expected] of cases) {
+        const actual = toFileURL(path, { ...options, drives: { "D:": "/Volumes/Media/" } }).href;
+        if (actual !== expected) {
+            throw `FAIL: toFileURL: ${path}: Expected ${expected}, Actual ${actual}`;
+        }
+    }
+
+    const windows = { windows: true, base: "file:///C:/Media/" };
+    const windowsCases: [string, string, string][] = [
+        ["C:\\TV\\Doctor Who\\", "file:///C:/TV/Doctor%20Who/", "C:\\TV\\Doctor Who\\"],
+        ["\\\\server\\share\\TV\\", "file://server/share/TV/", "\\\\server\\share\\TV\\"],
+        ["..\\TV\\", "file:///C:/TV/", "C:\\TV\\"],
+    ];
+
+    for (const [path, expected, expectedPath] of windowsCases) {
+        const actual = toFileURL(path, windows).href;
+        const actualPath = toFilePath(actual, windows);
+        if ((actual !== expected) || (actualPath !== expectedPath)) {
+            throw `FAIL: toFileURL windows: ${path}: Expected ${expected} ${expectedPath}, Actual ${actual} ${actualPath}`;
+        }
+    }
+});
+
 Deno.test("name", async function () {
     const result = fileName("/Users/user/Desktop/__current/fs.ext");
     console.log(result);
@@ -32,3 +69,119 @@ Deno.test("name", async function () {
     console.log(fileName("file:///what%20a space/"));
 });
 
+/** Returns a command that runs JavaScript with the Deno executable, so the tests don't depend on other applications */
+function script(code: string, ...scriptArguments: string[]): string[] {
+    return [Deno.execPath(), "eval", code, ...scriptArguments];
+}
+
+const cat = script("await Deno.stdin.readable.pipeTo(Deno.stdout.writable)");
+const sleep = script("await new Promise(resolve => setTimeout(resolve, 10000))");
+const exit2 = script("Deno.exit(2)");
+
+Deno.test("execute", async function () {
+    const output = await execute(cat[0], cat.slice(1), { stdin: { text: "input" } });
+    if (output !== "input") {
+        throw `FAIL: stdin: ${output}`;
+    }
+
+    // Text that matches an input mode is still written as text
+    const modeText = await execute(cat[0], cat.slice(1), { stdin: { text: "null" } });
+    if (modeText !== "null") {
+        throw `FAIL: stdin text: ${modeText}`;
+    }
+
+    try {
+        const [command, ...commandArguments] = script("console.error('failed'); Deno.exit(3)");
+        await execute(command, ...commandArguments);
+        throw `FAIL: execute should throw`;
+    } catch (e) {
+        if (!(e instanceof ProcessError) || (e.result.code !== 3) || (e.message !== "failed")) {
+            throw e;
+        }
+    }
+
+    const timed = await run(sleep[0], sleep.slice(1), { timeout: 50 });
+    if (!timed.timedOut || timed.success) {
+        throw `FAIL: timeout`;
+    }
+
+    const process = run(sleep[0], sleep.slice(1));
+    process.cancel();
+    const canceled = await process;
+    if (!canceled.canceled || canceled.success) {
+        throw `FAIL: cancel`;
+    }
+});
+
+Deno.test("pipeline", async function () {
+    // Arguments are passed as-is without a shell
+    const argument = `"$(echo injected)" | cat`;
+    const echo = script("console.log(Deno.args[0])", argument);
+    const upperCase = script("console.log((await new Response(Deno.stdin.readable).text()).toUpperCase())");
+    const output = await executePipeline([echo, upperCase, cat]);
+    if (output !== argument.toUpperCase()) {
+        throw `FAIL: pipeline: ${output}`;
+    }
+
+    // The last command can stop reading early
+    const count = script("for (let i = 1; i <= 100000; ++i) console.log(i)");
+    const head = script("const { value } = await Deno.stdin.readable.getReader().read(); console.log(new TextDecoder().decode(value).split('\\n')[0]); Deno.exit(0)");
+    const first = await executePipeline([count, head]);
+    if (first !== "1") {
+        throw `FAIL: pipeline head: ${first}`;
+    }
+
+    // Only the last command counts unless pipefail is set
+    const hidden = await pipeline([exit2, cat]);
+    const reported = await pipeline([exit2, cat], { pipefail: true });
+    if (!hidden.success || reported.success || (reported.code !== 2)) {
+        throw `FAIL: pipefail: ${hidden.code} ${reported.code}`;
+    }
+});
+
+Deno.test("respawn", async function () {
+    // Fails until it has been run three times, counting the attempts in a file
+    const folder = await Deno.makeTempDir();
+    const counter = `${folder}/count`;
+    const flaky = script(
+        "const path = Deno.args[0]; let count = 0; try { count = Number(await Deno.readTextFile(path)); } catch { /* first attempt */ } await Deno.writeTextFile(path, String(++count)); Deno.exit((count < 3) ? 1 : 0)",
+        counter,
+    );
+
+    try {
+        // Retries back off by the factor: 20 + 40 milliseconds
+        const start = Date.now();
+        await respawn(flaky[0], flaky.slice(1), { retry: { delay: 20, factor: 2, maxDelay: 1000 } });
+        const elapsed = Date.now() - start;
+        const count = await Deno.readTextFile(counter);
+        if ((count !== "3") || (elapsed < 60)) {
+            throw `FAIL: respawn: ${count} attempts in ${elapsed}ms`;
+        }
+
+        // The delay is capped at maxDelay: 20 + 20 milliseconds rather than 20 + 2000
+        await Deno.remove(counter);
+        const cappedStart = Date.now();
+        await respawn(flaky[0], flaky.slice(1), { retry: { delay: 20, factor: 100, maxDelay: 20 } });
+        const cappedElapsed = Date.now() - cappedStart;
+        if (cappedElapsed >= 2000) {
+            throw `FAIL: respawn maxDelay: ${cappedElapsed}ms`;
+        }
+
+        // Running out of retries rejects with the last failure
+        await Deno.remove(counter);
+        try {
+            await respawn(flaky[0], flaky.slice(1), { retry: { retries: 1, delay: 1 } });
+            throw `FAIL: respawn should throw`;
+        } catch (e) {
+            if (!(e instanceof ProcessError) || (e.result.code !== 1)) {
+                throw e;
+            }
+        }
+        const attempts = await Deno.readTextFile(counter);
+        if (attempts !== "2") {
+            throw `FAIL: respawn retries: ${attempts}`;
+        }
+    } finally {
+        await Deno.remove(folder, { recursive: true });
+    }
+});
@@ -0,0 +1,240 @@
+// hash.ts calculates SHA-256 and SHA-1 hashes of files without reading whole files into memory.
+
+// WebCrypto's `digest` only accepts a complete buffer, which is fine for small files
+// but not for multi-gigabyte media files, so hash.ts includes incremental implementations
+// of the same algorithms that are used once a file is too big for a single chunk.
+// Both paths produce the same hash, the same as `shasum` and `sha256sum`.
+
+import { ByteRangeDefaultLength, FileOrPath, readRanges } from "./file.ts";
+import { dataToHex } from "./utility.ts";
+
+/** The hash algorithms supported by hashFile (using the WebCrypto names) */
+export type HashAlgorithm = "SHA-256" | "SHA-1";
+
+/** The default hash algorithm */
+export const DEFAULT_HASH_ALGORITHM: HashAlgorithm = "SHA-256";
+
+/** An incremental hash calculation */
+export interface Hasher {
+    /** Adds data to the hash */
+    update(data: Uint8Array): void;
+
+    /** Returns the hash of all the data. The hasher cannot be used after calling digest. */
+    digest(): Uint8Array;
+}
+
+const BLOCK_LENGTH = 64;
+
+/** The shared message padding and block handling of SHA-1 and SHA-256 */
+abstract class BlockHasher implements Hasher {
+    state: Uint32Array;
+    block = new Uint8Array(BLOCK_LENGTH);
+    blockView = new DataView(this.block.buffer);
+    blockLength = 0;
+    length = 0;
+
+    constructor(state: number[]) {
+        this.state = new Uint32Array(state);
+    }
+
+    abstract processBlock(view: DataView, offset: number): void;
+
+    update(data: Uint8Array): void {
+        this.length += data.length;
+
+        let offset = 0;
+        if (this.blockLength > 0) {
+            const count = Math.min(BLOCK_LENGTH - this.blockLength, data.length);
+            this.block.set(data.subarray(0, count), this.blockLength);
+            this.blockLength += count;
+            offset = count;
+            if (this.blockLength < BLOCK_LENGTH) {
+                return;
+            }
+            this.processBlock(this.blockView, 0);
+            this.blockLength = 0;
+        }
+
+        const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        for (; offset + BLOCK_LENGTH <= data.length; offset += BLOCK_LENGTH) {
+            this.processBlock(view, offset);
+        }
+
+        this.block.set(data.subarray(offset), 0);
+        this.blockLength = data.length - offset;
+    }
+
+    digest(): Uint8Array {
+        const bits = this.length * 8;
+
+        // A 1 bit, then zeros, then the length in bits as a 64-bit big-endian number
+        const padding = new Uint8Array(((this.blockLength < 56) ? 64 : 128) - this.blockLength);
+        padding[0] = 0x80;
+        const view = new DataView(padding.buffer);
+        view.setUint32(padding.length - 8, Math.floor(bits / 0x100000000));
+        view.setUint32(padding.length - 4, bits >>> 0);
+        this.update(padding);
+
+        const result = new Uint8Array(this.state.length * 4);
+        const resultView = new DataView(result.buffer);
+        this.state.forEach((word, index) => resultView.setUint32(index * 4, word));
+        return result;
+    }
+}
+
+function rotateLeft(value: number, count: number): number {
+    return (value << count) | (value >>> (32 - count));
+}
+
+function rotateRight(value: number, count: number): number {
+    return (value >>> count) | (value << (32 - count));
+}
+
+class SHA1 extends BlockHasher {
+    words = new Uint32Array(80);
+
+    constructor() {
+        super([0x67452301, 0xEFCDAB89, 0x98BADCFE, 0x10325476, 0xC3D2E1F0]);
+    }
+
+    processBlock(view: DataView, offset: number): void {
+        const w = this.words;
+        for (let i = 0; i < 16; ++i) {
+            w[i] = view.getUint32(offset + i * 4);
+        }
+        for (let i = 16; i < 80; ++i) {
+            w[i] = rotateLeft(w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16], 1);
+        }
+
+        const s = this.state;
+        let a = s[0], b = s[1], c = s[2], d = s[3], e = s[4];
+        for (let i = 0; i < 80; ++i) {
+            let f: number, k: number;
+            if (i < 20) {
+                f = (b & c) | (~b & d);
+                k = 0x5A827999;
+            } else if (i < 40) {
+                f = b ^ c ^ d;
+                k = 0x6ED9EBA1;
+            } else if (i < 60) {
+                f = (b & c) | (b & d) | (c & d);
+                k = 0x8F1BBCDC;
+            } else {
+                f = b ^ c ^ d;
+                k = 0xCA62C1D6;
+            }
+            const t = (rotateLeft(a, 5) + f + e + k + w[i]) | 0;
+            e = d;
+            d = c;
+            c = rotateLeft(b, 30);
+            b = a;
+            a = t;
+        }
+
+        s[0] += a;
+        s[1] += b;
+        s[2] += c;
+        s[3] += d;
+        s[4] += e;
+    }
+}
+
+const SHA256_K = new Uint32Array([
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+    0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+    0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+    0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+    0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+    0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+    0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+    0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+class SHA256 extends BlockHasher {
+    words = new Uint32Array(64);
+
+    constructor() {
+        super([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+    }
+
+    processBlock(view: DataView, offset: number): void {
+        const w = this.words;
+        for (let i = 0; i < 16; ++i) {
+            w[i] = view.getUint32(offset + i * 4);
+        }
+        for (let i = 16; i < 64; ++i) {
+            const x = w[i - 15], y = w[i - 2];
+            const s0 = rotateRight(x, 7) ^ rotateRight(x, 18) ^ (x >>> 3);
+            const s1 = rotateRight(y, 17) ^ rotateRight(y, 19) ^ (y >>> 10);
+            w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+        }
+
+        const s = this.state;
+        let a = s[0], b = s[1], c = s[2], d = s[3], e = s[4], f = s[5], g = s[6], h = s[7];
+        for (let i = 0; i < 64; ++i) {
+            const s1 = rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25);
+            const ch = (e & f) ^ (~e & g);
+            const t1 = (h + s1 + ch + SHA256_K[i] + w[i]) | 0;
+            const s0 = rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22);
+            const maj = (a & b) ^ (a & c) ^ (b & c);
+            const t2 = (s0 + maj) | 0;
+            h = g;
+            g = f;
+            f = e;
+            e = (d + t1) | 0;
+            d = c;
+            c = b;
+            b = a;
+            a = (t1 + t2) | 0;
+        }
+
+        s[0] += a;
+        s[1] += b;
+        s[2] += c;
+        s[3] += d;
+        s[4] += e;
+        s[5] += f;
+        s[6] += g;
+        s[7] += h;
+    }
+}
+
+/** Creates an incremental hasher for the specified algorithm */
+export function createHasher(algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM): Hasher {
+    switch (algorithm) {
+        case "SHA-256": return new SHA256();
+        case "SHA-1": return new SHA1();
+    }
+    throw new TypeError(`Unsupported hash algorithm '${algorithm}'`);
+}
+
+/** The size of the chunks read by hashFile. Files that fit in a single chunk are hashed by WebCrypto. */
+const HASH_CHUNK_LENGTH = ByteRangeDefaultLength;
+
+/**
+ * Calculates the hash of a file and returns it as a lowercase hexadecimal string.
+ * The file is read in chunks so the whole file is never in memory.
+ *
+ * @param fileOrPath - A file, file:// URL, or file path
+ * @param algorithm - "SHA-256" (the default) or "SHA-1"
+ */
+export async function hashFile(fileOrPath: FileOrPath, algorithm: HashAlgorithm = DEFAULT_HASH_ALGORITHM): Promise<string> {
+    const iterator = readRanges(fileOrPath, { length: HASH_CHUNK_LENGTH })[Symbol.asyncIterator]();
+    try {
+        const first = await iterator.next();
+        const data = first.done ? new Uint8Array(0) : first.value;
+        if (data.length < HASH_CHUNK_LENGTH) {
+            // Copied because WebCrypto only accepts data backed by an ArrayBuffer
+            return dataToHex(new Uint8Array(await crypto.subtle.digest(algorithm, new Uint8Array(data))));
+        }
+
+        const hasher = createHasher(algorithm);
+        hasher.update(data);
+        for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+            hasher.update(next.value);
+        }
+        return dataToHex(hasher.digest());
+    } finally {
+        await iterator.return?.();
+    }
+}
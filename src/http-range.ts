@@ -0,0 +1,164 @@
+// Converts between HTTP byte range syntax and the ByteRange type from file.ts
+// so that a server can answer Range requests using readRanges.
+
+// Range: bytes=0-499           The first 500 bytes
+// Range: bytes=500-            Everything from byte 500 to the end
+// Range: bytes=-500            The last 500 bytes
+// Range: bytes=0-99,200-299    Two ranges, sent as a multipart/byteranges body
+
+import { FileOrPath, readRangeInChunks } from "./file.ts";
+import { dataToHex, generable } from "./utility.ts";
+
+/**
+ * A byte range that has been resolved against the size of a file.
+ * `end` is exclusive, as it is for ByteRange, so this type can be passed anywhere a ByteRange is expected.
+ */
+export type ResolvedByteRange = { start: number, end: number };
+
+const rangeHeaderRE = /^\s*bytes\s*=\s*(?<specs>.*)$/i;
+const rangeSpecRE = /^\s*(?<first>\d*)\s*-\s*(?<last>\d*)\s*$/;
+
+/** The default maximum number of ranges that parseRangeHeader accepts in a single header */
+export const MAX_RANGES = 100;
+
+/**
+ * Parses the value of an HTTP Range header and resolves each range against the size of the file.
+ *
+ * Handles single ranges (`bytes=0-499`), open-ended ranges (`bytes=500-`),
+ * suffix ranges (`bytes=-500`), and multiple ranges (`bytes=0-99,200-299`).
+ * Ranges that extend beyond the end of the file are shortened to fit.
+ * Overlapping and adjacent ranges are merged, so the result is sorted by position
+ * and no byte is sent twice.
+ *
+ * Returns undefined if the header is not a valid bytes range or if it contains more than
+ * `maxRanges` ranges. Servers should ignore the Range header in that case and send the whole file.
+ *
+ * Returns an empty array if none of the ranges overlaps the file. Servers should respond with
+ * 416 Range Not Satisfiable in this case.
+ *
+ * @param header The value of the Range header
+ * @param size The size of the file in bytes
+ * @param maxRanges The maximum number of ranges in the header. The default is MAX_RANGES.
+ */
+export function parseRangeHeader(header: string, size: number, maxRanges: number = MAX_RANGES): ResolvedByteRange[] | undefined {
+    const specs = rangeHeaderRE.exec(header)?.groups?.specs?.split(",");
+    if ((specs === undefined) || (specs.length > maxRanges)) {
+        return undefined;
+    }
+
+    const result: ResolvedByteRange[] = [];
+    for (const spec of specs) {
+        const match = rangeSpecRE.exec(spec);
+        if (!match || !match.groups) {
+            return undefined;
+        }
+
+        const { first, last } = match.groups;
+        if ((first === "") && (last === "")) {
+            return undefined;
+        }
+
+        if (first === "") {
+            // Suffix range: the last N bytes
+            const suffixLength = parseInt(last, 10);
+            if (suffixLength > 0) {
+                result.push({ start: Math.max(0, size - suffixLength), end: size });
+            }
+            continue;
+        }
+
+        const start = parseInt(first, 10);
+        const end = (last === "") ? size : Math.min(size, parseInt(last, 10) + 1);
+        if ((last !== "") && (parseInt(last, 10) < start)) {
+            return undefined;
+        }
+
+        if (start < size) {
+            result.push({ start, end });
+        }
+    }
+
+    return mergeRanges(result);
+}
+
+/** Sorts ranges and combines the ones that overlap or touch */
+function mergeRanges(ranges: ResolvedByteRange[]): ResolvedByteRange[] {
+    const sorted = [...ranges].sort((a, b) => a.start - b.start);
+    const result: ResolvedByteRange[] = [];
+    for (const range of sorted) {
+        const previous = result[result.length - 1];
+        if ((previous !== undefined) && (range.start <= previous.end)) {
+            previous.end = Math.max(previous.end, range.end);
+        } else {
+            result.push({ ...range });
+        }
+    }
+    return result;
+}
+
+/**
+ * Returns the value of a Content-Range header for the specified range.
+ * If no range is provided, returns the value used with 416 Range Not Satisfiable,
+ * which has an asterisk in place of the range.
+ *
+ * @param range The range being sent
+ * @param size The size of the file in bytes
+ */
+export function formatContentRange(range: ResolvedByteRange | undefined, size: number): string {
+    if (range === undefined) {
+        return `bytes */${size}`;
+    }
+    return `bytes ${range.start}-${range.end - 1}/${size}`;
+}
+
+/** A multipart/byteranges response body and the headers that describe it */
+export interface MultipartByteRanges {
+    /** The value of the Content-Type header including the boundary */
+    contentType: string;
+
+    /** The value of the Content-Length header */
+    contentLength: number;
+
+    /** The body of the response */
+    body: AsyncIterable<Uint8Array>;
+}
+
+/**
+ * Creates a multipart/byteranges body that contains each of the ranges from the file.
+ * The data is streamed from the file as the body is iterated.
+ *
+ * @param fileOrPath - A file, file:// URL, or file path
+ * @param ranges - The ranges to include (usually from parseRangeHeader)
+ * @param size - The size of the file in bytes
+ * @param mimeType - The Content-Type of the file
+ */
+export function multipartByteRanges(fileOrPath: FileOrPath, ranges: ResolvedByteRange[], size: number, mimeType = "application/octet-stream"): MultipartByteRanges {
+    const boundary = dataToHex(crypto.getRandomValues(new Uint8Array(16)));
+    const encoder = new TextEncoder();
+
+    const headers = ranges.map(range => encoder.encode(
+        `--${boundary}\r\nContent-Type: ${mimeType}\r\nContent-Range: ${formatContentRange(range, size)}\r\n\r\n`
+    ));
+    const lineEnd = encoder.encode("\r\n");
+    const close = encoder.encode(`--${boundary}--\r\n`);
+
+    let contentLength = close.length;
+    ranges.forEach((range, index) => {
+        contentLength += headers[index].length + (range.end - range.start) + lineEnd.length;
+    });
+
+    async function* _body() {
+        for (const [index, range] of ranges.entries()) {
+            yield headers[index];
+            yield* readRangeInChunks(fileOrPath, range);
+            yield lineEnd;
+        }
+        yield close;
+    }
+
+    return {
+        contentType: `multipart/byteranges; boundary=${boundary}`,
+        contentLength,
+        body: generable(_body)(),
+    };
+}
@@ -0,0 +1,69 @@
+import { MemoryFileSystem } from "./file-memory.ts";
+import { setFileSystem } from "./file.ts";
+import { formatContentRange, multipartByteRanges, parseRangeHeader } from "./http-range.ts";
+import { arrayFrom } from "./utility.ts";
+
+Deno.test("parseRangeHeader", function () {
+    const size = 1000;
+    const tests: [string, string][] = [
+        ["bytes=0-499", "0-500"],
+        ["bytes=500-", "500-1000"],
+        ["bytes=-300", "700-1000"],
+        ["bytes=-5000", "0-1000"],
+        ["bytes=900-2000", "900-1000"],
+        ["bytes=0-99, 200-299", "0-100,200-300"],
+        ["bytes=200-299,0-99", "0-100,200-300"],
+        ["bytes=0-99,50-149,150-199", "0-200"],
+        ["bytes=0-,-1,0-0", "0-1000"],
+        [`bytes=${Array.from({ length: 101 }, (_, i) => `${i}-${i}`).join(",")}`, "invalid"],
+        ["bytes=1000-", ""],
+        ["bytes=500-100", "invalid"],
+        ["items=0-1", "invalid"],
+        ["bytes=-", "invalid"],
+    ];
+
+    for (const [header, expected] of tests) {
+        const ranges = parseRangeHeader(header, size);
+        const actual = (ranges === undefined) ? "invalid" : ranges.map(r => `${r.start}-${r.end}`).join(",");
+        if (actual !== expected) {
+            throw `FAIL: parseRangeHeader: '${header}' Expected ${expected}, Actual ${actual}`;
+        }
+    }
+});
+
+Deno.test("formatContentRange", function () {
+    if (formatContentRange({ start: 0, end: 500 }, 1000) !== "bytes 0-499/1000") {
+        throw `FAIL: formatContentRange`;
+    }
+
+    if (formatContentRange(undefined, 1000) !== "bytes */1000") {
+        throw `FAIL: formatContentRange unsatisfiable`;
+    }
+});
+
+Deno.test("multipartByteRanges", async function () {
+    const previous = setFileSystem(new MemoryFileSystem({ "data.txt": "0123456789" }));
+    try {
+        const ranges = parseRangeHeader("bytes=0-1,-3", 10)!;
+        const multipart = multipartByteRanges("/data.txt", ranges, 10, "text/plain");
+        const boundary = multipart.contentType.split("boundary=")[1];
+
+        const chunks = await arrayFrom(multipart.body);
+        const length = chunks.reduce((total, chunk) => total + chunk.length, 0);
+        if (length !== multipart.contentLength) {
+            throw `FAIL: multipartByteRanges: Content-Length: Expected ${multipart.contentLength}, Actual ${length}`;
+        }
+
+        const text = chunks.map(chunk => new TextDecoder().decode(chunk)).join("");
+        const expected = [
+            `--${boundary}`, "Content-Type: text/plain", "Content-Range: bytes 0-1/10", "", "01",
+            `--${boundary}`, "Content-Type: text/plain", "Content-Range: bytes 7-9/10", "", "789",
+            `--${boundary}--`, "",
+        ].join("\r\n");
+        if (text !== expected) {
+            throw `FAIL: multipartByteRanges: ${text}`;
+        }
+    } finally {
+        setFileSystem(previous);
+    }
+});
@@ -2,9 +2,29 @@
 // manually using .junction files, and automatically by associating items of the same name
 // at the same level of the tree.
 
-// Junction files are text files where each line is a file:// URL pointing to a file or folder.
+// Junction files are text files where each line is a file:// URL or a path pointing to a file or folder.
+// Paths can be relative to the junction file, start with ~ for the home folder,
+// or (on Windows) use drive letters and backslashes.
 // Junction files use the `.junction` extension.
 
+// Blank lines and lines starting with # are ignored.
+// The first line can be REQUIRED (the default) or OPTIONAL. OPTIONAL means that any target may be missing.
+
+// A target can be followed by | and modifiers separated by spaces:
+//      optional        This target may be missing
+//      required        This target must exist (even in an OPTIONAL junction)
+//      priority=N      Targets with a higher priority come first (the default is 0)
+//      exclude=GLOB    Files and folders in the target that match the glob are left out (can be repeated)
+
+// The first line can also be followed by | and conflicts=POLICY to choose the file that is used
+// when more than one target contains a file with the same name (see ConflictPolicy).
+
+// For example:
+//      # Television from both drives
+//      REQUIRED | conflicts=newest
+//      file:///Volumes/Drive1/TV/
+//      ../Drive2/TV/ | optional priority=1 exclude=*.nfo exclude=Extras/
+
 // A junction file containing a single file URL makes the junction file
 // behave like that file, but with a new name or location.
 
@@ -36,32 +56,485 @@
 // Once we do that, the Images/Extra/ and Texts/Extra/ folders are combined automatically.
 
 import {
-    FilePath, FileName,
-    directoryEntries, fileName, isFolderPath, readFile, toFileURL, exists
+    FilePath, FileName, FileStatus,
+    directoryEntries, fileName, globToRegExp, isFolderPath, readLines, resolveLink, stat, toFilePath, toFileURL, exists,
+    writeTextFile
 } from "./file.ts";
-import { filter } from "./utility.ts";
+import { arrayFrom, filter, generable } from "./utility.ts";
 
 const JUNCTION_EXTENSION = "junction";
-const JUNCTION_MAXIMUM_LENGTH = 32 * 1024; // 32K maximum bytes in a junction file 
+const JUNCTION_MAXIMUM_LINE_LENGTH = 32 * 1024; // 32K maximum bytes in a line of a junction file
 
 type FileURL = URL;
 
-interface Junction {
-    type: "OPTIONAL" | "REQUIRED",
-    urls: URL[],
+/**
+ * How names are compared when entries from different targets are combined and when paths are resolved.
+ *
+ * - "exact": names must be identical
+ * - "case-insensitive": "Season 1" matches "season 1"
+ * - "normalized": Unicode-normalized (NFC) and case-folded, so that names copied from macOS (NFD)
+ *   match the same names written elsewhere (NFC), and "STRASSE" matches "Straße"
+ */
+export type NameMatching = "exact" | "case-insensitive" | "normalized";
+
+/** The matching policy used when none is specified */
+export const DEFAULT_NAME_MATCHING: NameMatching = "exact";
+
+/** Options for loadEntry and createEntry */
+export interface EntryOptions {
+    /** How names are compared. The default is "exact". Children use the same policy as their parent. */
+    matching?: NameMatching;
+
+    /** The maximum number of junction files that can be followed along a path through the tree. The default is 16. */
+    maxJunctionDepth?: number;
+
+    /**
+     * What happens when following a junction would form a cycle or exceed the maximum depth.
+     * "error" (the default) throws JunctionCycleError or JunctionDepthError.
+     * "flag" sets the `error` property of the entry and gives it no children.
+     */
+    cycles?: "error" | "flag";
+
+    /**
+     * Which file is used when more than one target contains a file with the same name.
+     * The default is "first". A junction file can set the policy for its own tree.
+     */
+    conflicts?: ConflictPolicy;
+}
+
+/**
+ * Which file is used when more than one target contains a file with the same name.
+ *
+ * - "first": the file from the first target (in the order of the junction file, which is the priority order)
+ * - "newest": the file with the latest modification time
+ * - "largest": the largest file
+ * - "report": the file from the first target, but the entry's `conflict` property is set and `target` throws
+ *
+ * The chosen file becomes the first target of the entry. Files that are missing come last.
+ */
+export type ConflictPolicy = "first" | "newest" | "largest" | "report";
+
+const CONFLICT_POLICIES: ConflictPolicy[] = ["first", "newest", "largest", "report"];
+
+/** The default maximum number of junction files that can be followed along a path */
+export const DEFAULT_MAX_JUNCTION_DEPTH = 16;
+
+/** Returns a string that is the same for all names that match under the policy */
+export function nameKey(name: string, matching: NameMatching = DEFAULT_NAME_MATCHING): string {
+    switch (matching) {
+        case "exact": return name;
+        case "case-insensitive": return name.toLowerCase();
+        // Upper then lower case approximates full case folding (ß -> SS -> ss)
+        case "normalized": return name.normalize("NFC").toUpperCase().toLowerCase();
+    }
+}
+
+/** Returns true if the names and extensions match under the policy */
+export function namesMatch(a: FileName, b: FileName, matching: NameMatching = DEFAULT_NAME_MATCHING): boolean {
+    if ((a.extension === undefined) !== (b.extension === undefined)) {
+        return false;
+    }
+    return (nameKey(a.name, matching) === nameKey(b.name, matching)) &&
+        ((a.extension === undefined) || (nameKey(a.extension, matching) === nameKey(b.extension!, matching)));
+}
+
+export type JunctionType = "OPTIONAL" | "REQUIRED";
+
+const JUNCTION_TYPES: JunctionType[] = ["OPTIONAL", "REQUIRED"];
+
+/** A target listed in a junction file */
+export interface JunctionTarget {
+    url: URL;
+
+    /** The target may be missing. Undefined means that the junction type decides. */
+    optional?: boolean;
+
+    /** Targets with a higher priority come first. The default is 0. */
+    priority?: number;
+
+    /** Globs for files and folders in the target that are left out of the junction */
+    exclude?: string[];
+}
+
+/** The contents of a junction file */
+export interface Junction {
+    type: JunctionType;
+
+    /** Which file is used when targets contain files with the same name */
+    conflicts?: ConflictPolicy;
+
+    /** The targets in priority order */
+    targets: JunctionTarget[];
+}
+
+/** Thrown when a junction file cannot be parsed */
+export class JunctionParseError extends Error {
+    /** The location of the junction file */
+    url: URL;
+
+    /** The line number of the problem, starting at 1 */
+    line: number;
+
+    constructor(url: URL, line: number, message: string) {
+        super(`${toFilePath(url)}:${line}: ${message}`);
+        this.name = "JunctionParseError";
+        this.url = url;
+        this.line = line;
+    }
+}
+
+/** Files and folders left out of a target by an exclude glob */
+export interface JunctionExclusion {
+    /** The target the glob applies to */
+    base: URL;
+
+    /** The glob, which is matched against the path relative to the target */
+    glob: string;
+
+    pattern: RegExp;
+}
+
+const priorityRE = /^-?\d+$/;
+
+/** Converts a modifier such as `priority=2` and adds it to the target */
+function parseModifier(target: JunctionTarget, modifier: string): string | undefined {
+    const [key, ...rest] = modifier.split("=");
+    const value = rest.join("=");
+    switch (key.toLowerCase()) {
+        case "optional":
+        case "required":
+            if (rest.length > 0) {
+                return `Unexpected value for '${key}'`;
+            }
+            target.optional = (key.toLowerCase() === "optional");
+            return;
+        case "priority":
+            if (!priorityRE.test(value)) {
+                return `Priority must be a whole number, not '${value}'`;
+            }
+            target.priority = parseInt(value, 10);
+            return;
+        case "exclude":
+            if (value === "") {
+                return `Missing glob for 'exclude'`;
+            }
+            target.exclude = [...(target.exclude ?? []), value];
+            return;
+    }
+    return `Unknown modifier '${modifier}'`;
+}
+
+const percentEncodedRE = /%[0-9A-Fa-f]{2}/;
+
+/**
+ * Converts a line of a junction file to a URL.
+ * Lines that are already percent-encoded (such as `Other%20Folder/`) are relative URLs,
+ * as they were before junction files could contain paths, so they are not encoded again.
+ */
+function junctionTargetURL(location: string, url: URL): URL {
+    if (percentEncodedRE.test(location) && !location.includes("\\")) {
+        return new URL(location, url);
+    }
+    return toFileURL(location, { base: url });
+}
+
+/**
+ * Converts the text of a junction file.
+ * Throws JunctionParseError if a line cannot be understood.
+ *
+ * @param lines The lines of the file
+ * @param url The location of the junction file, used to resolve relative paths and to report errors
+ */
+export function parseJunction(lines: Iterable<string>, url: URL): Junction {
+    let type: JunctionType | undefined;
+    let conflicts: ConflictPolicy | undefined;
+    const targets: JunctionTarget[] = [];
+
+    let number = 0;
+    for (const text of lines) {
+        ++number;
+        const line = text.trim();
+        if ((line === "") || line.startsWith("#")) {
+            continue;
+        }
+
+        const separator = line.indexOf("|");
+        const location = ((separator >= 0) ? line.substring(0, separator) : line).trim();
+        const modifiers = (separator >= 0) ? line.substring(separator + 1).split(/\s+/).filter(x => x !== "") : [];
+
+        if (JUNCTION_TYPES.includes(location as JunctionType)) {
+            if ((type !== undefined) || (targets.length > 0)) {
+                throw new JunctionParseError(url, number, `The junction type must be on the first line`);
+            }
+            type = location as JunctionType;
+            for (const modifier of modifiers) {
+                const [key, value] = modifier.split("=");
+                if ((key.toLowerCase() !== "conflicts") || !CONFLICT_POLICIES.includes(value as ConflictPolicy)) {
+                    throw new JunctionParseError(url, number, `Unknown junction modifier '${modifier}'`);
+                }
+                conflicts = value as ConflictPolicy;
+            }
+            continue;
+        }
+        type ??= "REQUIRED";
+
+        if (location === "") {
+            throw new JunctionParseError(url, number, `Missing target`);
+        }
+
+        const target: JunctionTarget = { url: junctionTargetURL(location, url) };
+        for (const modifier of modifiers) {
+            const error = parseModifier(target, modifier);
+            if (error !== undefined) {
+                throw new JunctionParseError(url, number, error);
+            }
+        }
+        targets.push(target);
+    }
+
+    // Sort is stable so targets with the same priority stay in the order they were listed
+    targets.sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+    return { type: type ?? "REQUIRED", conflicts, targets };
+}
+
+/** Reads a junction file. Throws JunctionParseError if the file cannot be parsed. */
+export async function readJunction(filePath: FilePath): Promise<Junction> {
+    const url = toFileURL(filePath);
+    const lines: string[] = [];
+    for await (const line of readLines(url, { maxLineLength: JUNCTION_MAXIMUM_LINE_LENGTH })) {
+        lines.push(line.text);
+    }
+    return parseJunction(lines, url);
+}
+
+/** Thrown when following a junction file leads back to a junction file or folder that is already on the path */
+export class JunctionCycleError extends Error {
+    /** The location of the junction file */
+    url: URL;
+
+    /** The junction file or target that was already on the path */
+    repeated: URL;
+
+    constructor(url: URL, repeated: URL) {
+        super(`${toFilePath(url)}: Following the junction would form a cycle through '${repeated.href}'`);
+        this.name = "JunctionCycleError";
+        this.url = url;
+        this.repeated = repeated;
+    }
+}
+
+/** Thrown when following a junction file would exceed the maximum junction depth */
+export class JunctionDepthError extends Error {
+    /** The location of the junction file */
+    url: URL;
+
+    constructor(url: URL, maxJunctionDepth: number) {
+        super(`${toFilePath(url)}: Following the junction would exceed the maximum depth of ${maxJunctionDepth} junctions`);
+        this.name = "JunctionDepthError";
+        this.url = url;
+    }
+}
+
+/** Thrown when more than one target contains a file with the same name and the conflict policy is "report" */
+export class JunctionConflictError extends Error {
+    /** The files with the same name */
+    urls: URL[];
+
+    constructor(urls: URL[]) {
+        super(`More than one target contains '${fileName(urls[0]).name}': ${urls.map(url => `'${toFilePath(url)}'`).join(", ")}`);
+        this.name = "JunctionConflictError";
+        this.urls = urls;
+    }
+}
+
+/** Thrown when a junction cannot be written because it is not valid */
+export class JunctionValidationError extends Error {
+    /** The location of the junction file */
+    url: URL;
+
+    /** The target with the problem, if the problem is with a target */
+    target?: URL;
+
+    constructor(url: URL, message: string, target?: URL) {
+        super(`${toFilePath(url)}: ${message}`);
+        this.name = "JunctionValidationError";
+        this.url = url;
+        this.target = target;
+    }
+}
+
+/** The contents of a junction file to write. Targets can be paths, URLs, or targets with modifiers. */
+export interface JunctionContents {
+    /** The default is REQUIRED */
+    type?: JunctionType;
+
+    /** Which file is used when targets contain files with the same name */
+    conflicts?: ConflictPolicy;
+
+    targets: (FilePath | JunctionTarget)[];
+}
+
+function toJunctionTarget(target: FilePath | JunctionTarget): JunctionTarget {
+    return ((typeof target === "string") || (target instanceof URL)) ? { url: toFileURL(target) } : target;
+}
+
+/**
+ * Converts a junction to text. Each target is written as a file:// URL followed by its modifiers.
+ * URLs leave "|" unencoded, so it is encoded here to keep it from being read as the start of the modifiers.
+ */
+export function formatJunction(junction: Junction): string {
+    const lines: string[] = [(junction.conflicts !== undefined) ? `${junction.type} | conflicts=${junction.conflicts}` : junction.type];
+    for (const target of junction.targets) {
+        const modifiers: string[] = [];
+        if (target.optional !== undefined) {
+            modifiers.push(target.optional ? "optional" : "required");
+        }
+        if ((target.priority !== undefined) && (target.priority !== 0)) {
+            modifiers.push(`priority=${target.priority}`);
+        }
+        for (const glob of target.exclude ?? []) {
+            modifiers.push(`exclude=${glob}`);
+        }
+        const location = target.url.href.replaceAll("|", "%7C");
+        lines.push((modifiers.length > 0) ? `${location} | ${modifiers.join(" ")}` : location);
+    }
+    return lines.join("\n") + "\n";
+}
+
+/** Returns the status of the target (following symbolic links) or undefined if it does not exist */
+async function targetStatus(url: URL): Promise<FileStatus | undefined> {
+    try {
+        const status = await stat(url);
+        if (status.kind !== "symlink") {
+            return status;
+        }
+        const resolved = await resolveLink(url);
+        return (resolved !== undefined) ? await stat(resolved) : undefined;
+    } catch (e) {
+        if (e instanceof Deno.errors.NotFound) {
+            return undefined;
+        }
+        throw e;
+    }
 }
 
-/** Reads lines from a text file and converts them to URL objects */
-async function loadJunction(url: URL): Promise<Junction> {
-    const data = await readFile(url, new Uint8Array(JUNCTION_MAXIMUM_LENGTH));
-    const text = new TextDecoder().decode(data);
-    const lines = text.split("\n");
-    if (!["OPTIONAL", "REQUIRED"].includes(lines[0])) {
-        throw `Unexpected junction type '${lines[0]}'`;
+/**
+ * Checks that a junction can be written.
+ * Every target must exist unless it is optional, folder targets must end with "/",
+ * file targets must not end with "/", and targets must not be listed twice.
+ * Throws JunctionValidationError if there is a problem.
+ *
+ * @param url The location of the junction file
+ * @param junction The contents of the junction
+ */
+export async function validateJunction(url: URL, junction: Junction): Promise<void> {
+    if (fileName(url).extension !== JUNCTION_EXTENSION) {
+        throw new JunctionValidationError(url, `Junction files must have the .${JUNCTION_EXTENSION} extension`);
+    }
+
+    const seen = new Set<string>();
+    for (const target of junction.targets) {
+        const href = target.url.href;
+        if (seen.has(href)) {
+            throw new JunctionValidationError(url, `The target '${href}' is listed more than once`, target.url);
+        }
+        seen.add(href);
+
+        for (const glob of target.exclude ?? []) {
+            if ((glob === "") || /\s/.test(glob)) {
+                throw new JunctionValidationError(url, `The exclude glob '${glob}' must not be empty or contain spaces`, target.url);
+            }
+        }
+
+        const kind = (await targetStatus(target.url))?.kind;
+        if (kind === undefined) {
+            if (!(target.optional ?? (junction.type === "OPTIONAL"))) {
+                throw new JunctionValidationError(url, `The target '${href}' does not exist`, target.url);
+            }
+        } else if ((kind === "folder") !== isFolderPath(target.url)) {
+            const problem = (kind === "folder") ? "is a folder so it must end with '/'" : "is a file so it must not end with '/'";
+            throw new JunctionValidationError(url, `The target '${href}' ${problem}`, target.url);
+        }
     }
-    const type = lines[0] as "OPTIONAL" | "REQUIRED";
-    const urls = lines.slice(1).map(urlLine => new URL(urlLine, url));
-    return { type, urls };
+}
+
+/**
+ * Writes a junction file atomically after validating it (see validateJunction).
+ * Targets are written as file:// URLs in priority order.
+ *
+ * @param filePath The location of the junction file
+ * @param contents The type and targets of the junction
+ */
+export async function writeJunction(filePath: FilePath, contents: JunctionContents): Promise<void> {
+    const url = toFileURL(filePath);
+    const junction: Junction = {
+        type: contents.type ?? "REQUIRED",
+        conflicts: contents.conflicts,
+        targets: contents.targets.map(toJunctionTarget).sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0)),
+    };
+    await validateJunction(url, junction);
+    await writeTextFile(url, formatJunction(junction), { atomic: true });
+}
+
+/** Reads a junction file, changes its targets, and writes it back */
+async function updateJunction(filePath: FilePath, update: (targets: JunctionTarget[], url: URL) => JunctionTarget[]): Promise<void> {
+    const url = toFileURL(filePath);
+    const junction = await readJunction(url);
+    await writeJunction(url, { type: junction.type, conflicts: junction.conflicts, targets: update(junction.targets, url) });
+}
+
+function findTarget(targets: JunctionTarget[], target: FilePath, url: URL): number {
+    const href = toFileURL(target).href;
+    const index = targets.findIndex(existing => existing.url.href === href);
+    if (index < 0) {
+        throw new JunctionValidationError(url, `The target '${href}' is not in the junction`);
+    }
+    return index;
+}
+
+/**
+ * Adds a target to the end of a junction file (or the end of the targets with the same priority).
+ * Comments in the file are not kept.
+ */
+export async function addJunctionTarget(filePath: FilePath, target: FilePath | JunctionTarget): Promise<void> {
+    await updateJunction(filePath, targets => [...targets, toJunctionTarget(target)]);
+}
+
+/**
+ * Removes a target from a junction file.
+ * Throws JunctionValidationError if the target is not in the junction. Comments in the file are not kept.
+ */
+export async function removeJunctionTarget(filePath: FilePath, target: FilePath): Promise<void> {
+    await updateJunction(filePath, (targets, url) => {
+        const index = findTarget(targets, target, url);
+        return targets.filter((_, i) => i !== index);
+    });
+}
+
+/**
+ * Replaces a target in a junction file, keeping its position.
+ * If the new target is a path or URL, the modifiers of the old target are kept.
+ * Throws JunctionValidationError if the old target is not in the junction. Comments in the file are not kept.
+ */
+export async function replaceJunctionTarget(filePath: FilePath, oldTarget: FilePath, newTarget: FilePath | JunctionTarget): Promise<void> {
+    await updateJunction(filePath, (targets, url) => {
+        const index = findTarget(targets, oldTarget, url);
+        const replacement = ((typeof newTarget === "string") || (newTarget instanceof URL)) ?
+            { ...targets[index], url: toFileURL(newTarget) } :
+            newTarget;
+        return targets.map((target, i) => (i === index) ? replacement : target);
+    });
+}
+
+/** Returns true if the file or folder is left out by one of the exclusions */
+function isExcluded(url: URL, exclusions: JunctionExclusion[]): boolean {
+    return exclusions.some(exclusion => {
+        if (!url.href.startsWith(exclusion.base.href)) {
+            return false;
+        }
+        const path = decodeURIComponent(url.href.substring(exclusion.base.href.length)).replace(/\/$/, "");
+        return exclusion.pattern.test(path);
+    });
 }
 
 /**
@@ -71,19 +544,27 @@ async function loadJunction(url: URL): Promise<Junction> {
  * Only if filePath represents a junction file will there be an immediate disk access.
  * Otherwise no disk access will occur until `children` is called.
  * 
+ * Throws JunctionCycleError or JunctionDepthError if the junction can't be followed
+ * (unless the `cycles` option is "flag").
+ *
  * @param filePath The location of the file
+ * @param options How names are matched and how cycles are handled in the tree
  */
-export async function loadEntry(filePath: FilePath): Promise<Entry> {
-    const url = toFileURL(filePath);
+export async function loadEntry(filePath: FilePath, options?: EntryOptions): Promise<Entry> {
+    return await loadChildEntry(toFileURL(filePath), options ?? {});
+}
+
+/** Loads an entry as a child of another entry, so that cycles can be detected */
+async function loadChildEntry(url: URL, options: EntryOptions, parent?: Entry): Promise<Entry> {
+    const matching = options.matching ?? DEFAULT_NAME_MATCHING;
 
     let name = fileName(url);
 
     // For an ordinary file, there is one target: the file itself
     let targets = [url];
 
-    // TODO - case sensitivity?
     let targetsMayBeMissing = false;
-    const isJunction = (name.extension === JUNCTION_EXTENSION);
+    const isJunction = (name.extension !== undefined) && (nameKey(name.extension, matching) === nameKey(JUNCTION_EXTENSION, matching));
     if (isJunction) {
         // When we have a junction file, the name of the entry
         // does not include the junction extension
@@ -94,19 +575,80 @@ export async function loadEntry(filePath: FilePath): Promise<Entry> {
         name = fileName(name.name);
 
         // For a junction, the targets are read from the file
-        const junction = await loadJunction(url);
-        targetsMayBeMissing = (junction.type === "OPTIONAL");
-        targets = junction.urls;
+        const junction = await readJunction(url);
+        const isOptional = (target: JunctionTarget) => target.optional ?? (junction.type === "OPTIONAL");
+        targetsMayBeMissing = junction.targets.some(isOptional);
+        targets = junction.targets.map(target => target.url);
+
+        const entry = new Entry(name, targets, targetsMayBeMissing, matching, { ...options, conflicts: junction.conflicts ?? options.conflicts }, parent);
+        entry.junctionDepth = (parent?.junctionDepth ?? 0) + 1;
+        entry.visited.add(url.href);
+        entry.error = cycleError(url, targets, entry.junctionDepth, options, parent);
+        if (entry.error && (options.cycles !== "flag")) {
+            throw entry.error;
+        }
+        entry.requiredTargets = new Set(junction.targets.filter(target => !isOptional(target)).map(target => target.url.href));
+        entry.exclusions = junction.targets.flatMap(target => (target.exclude ?? []).map(glob => ({
+            base: target.url,
+            glob,
+            pattern: globToRegExp(glob),
+        })));
+        return entry;
+    }
+
+    return new Entry(name, targets, targetsMayBeMissing, matching, options, parent);
+}
+
+/**
+ * Returns an error if the junction file is already on the path, if one of its targets is already on the path
+ * (so following it would show the same folder inside itself), or if following it would be too deep.
+ */
+function cycleError(url: URL, targets: URL[], depth: number, options: EntryOptions, parent?: Entry): JunctionCycleError | JunctionDepthError | undefined {
+    if (parent?.visited.has(url.href)) {
+        return new JunctionCycleError(url, url);
     }
 
-    // TODO
-    
-    return new Entry(name, targets, targetsMayBeMissing);
+    const repeated = targets.find(target => parent?.visited.has(target.href));
+    if (repeated !== undefined) {
+        return new JunctionCycleError(url, repeated);
+    }
+
+    const maxJunctionDepth = options.maxJunctionDepth ?? DEFAULT_MAX_JUNCTION_DEPTH;
+    if (depth > maxJunctionDepth) {
+        return new JunctionDepthError(url, maxJunctionDepth);
+    }
 }
 
-/** Create a junction without writing it to disk */
-export function createEntry(name: FileName, targets: FilePath[]) {
-    return new Entry(name, targets.map(toFileURL));
+/**
+ * Orders the file targets of an entry so that the file chosen by the conflict policy comes first.
+ * Sets the `conflict` property if the policy is "report" and more than one of the files exists.
+ */
+async function resolveConflict(entry: Entry, policy: ConflictPolicy): Promise<void> {
+    const files = entry.targets.filter(url => !isFolderPath(url));
+    if ((files.length < 2) || (files.length !== entry.targets.length)) {
+        return;
+    }
+
+    const statuses = await Promise.all(files.map(targetStatus));
+    const existing = files.map((url, index) => ({ url, status: statuses[index] })).filter(item => item.status !== undefined);
+    const missing = files.filter((_, index) => statuses[index] === undefined);
+
+    if (policy === "report") {
+        if (existing.length > 1) {
+            entry.conflict = new JunctionConflictError(existing.map(item => item.url));
+        }
+    } else if (policy === "newest") {
+        existing.sort((a, b) => (b.status!.mtime?.getTime() ?? 0) - (a.status!.mtime?.getTime() ?? 0));
+    } else if (policy === "largest") {
+        existing.sort((a, b) => b.status!.size - a.status!.size);
+    }
+
+    entry.targets = [...existing.map(item => item.url), ...missing];
+}
+
+/** Create a junction without writing it to disk (see writeJunction to create a junction file) */
+export function createEntry(name: FileName, targets: FilePath[], options?: EntryOptions) {
+    return new Entry(name, targets.map(target => toFileURL(target)), false, options?.matching, options);
 }
 
 export class Entry {
@@ -114,25 +656,76 @@ export class Entry {
     extension?: string;
     targets: FileURL[];
     targetsMayBeMissing: boolean;
+    matching: NameMatching;
+
+    /** When some targets may be missing, the targets that must still exist (by href) */
+    requiredTargets = new Set<string>();
+
+    /** Files and folders left out of the targets (inherited by children) */
+    exclusions: JunctionExclusion[] = [];
+
+    /** The options used to load this entry, which are also used for its children */
+    options: EntryOptions;
+
+    /** The junction files and targets of this entry and its ancestors (by href), used to detect cycles */
+    visited: Set<string>;
 
-    constructor(name: FileName, targets: FileURL[], targetsMayBeMissing = false) {
+    /** The number of junction files followed to reach this entry */
+    junctionDepth: number;
+
+    /**
+     * Set when following the junction would form a cycle or exceed the maximum depth
+     * and the `cycles` option is "flag". The entry has no children.
+     */
+    error?: JunctionCycleError | JunctionDepthError;
+
+    /** Set when the conflict policy is "report" and more than one target contains this file */
+    conflict?: JunctionConflictError;
+
+    constructor(name: FileName, targets: FileURL[], targetsMayBeMissing = false, matching = DEFAULT_NAME_MATCHING, options: EntryOptions = {}, parent?: Entry) {
         this.name = name.name;
         this.extension = name.extension;
         this.targets = targets;
         this.targetsMayBeMissing = targetsMayBeMissing;
+        this.matching = matching;
+        this.options = options;
+        this.visited = new Set([...(parent?.visited ?? []), ...targets.map(target => target.href)]);
+        this.junctionDepth = parent?.junctionDepth ?? 0;
+    }
+
+    /** Returns true if the entry has the specified name and extension, using the matching policy of the tree */
+    matches(name: FileName): boolean {
+        return namesMatch(this, name, this.matching);
     }
 
     get isFolder(): boolean {
         return this.targets.some(isFolderPath);
     }
 
+    /**
+     * The file or folder used for this entry: the first target, which is the file chosen by the conflict policy
+     * when more than one target contains the file.
+     * Undefined if the policy is "report" and there is a conflict (see `conflict`).
+     */
+    get target(): URL | undefined {
+        return (this.conflict === undefined) ? this.targets[0] : undefined;
+    }
+
+    /** Returns the existing files with the same name as the target that are not used because of the conflict policy */
+    async shadowed(): Promise<URL[]> {
+        if (this.isFolder) {
+            return [];
+        }
+        return await arrayFrom(filter(this.targets.slice(1), url => exists(url)));
+    }
+
     targetsWithChildren(): AsyncIterable<URL> {
         return filter(this.targets, async (url) => {
             if (!isFolderPath(url)) {
                 return false;
             }
             
-            if (!this.targetsMayBeMissing) {
+            if (!this.targetsMayBeMissing || this.requiredTargets.has(url.href)) {
                 return true;
             }
 
@@ -146,20 +739,90 @@ export class Entry {
         // this function might have to read many entries from many
         // different locations before we can return a result.
 
+        if (this.error !== undefined) {
+            return [];
+        }
+
         const result: Entry[] = [];
         for await (const target of this.targetsWithChildren()) {
             for await (const child of directoryEntries(target)) {
-                const entry = await loadEntry(child);
-                // TODO - case sensitivity
-                const found = result.find(existingEntry => (existingEntry.name === entry.name) && (existingEntry.extension === entry.extension));
+                if (isExcluded(child, this.exclusions)) {
+                    continue;
+                }
+                const entry = await loadChildEntry(child, { ...this.options, matching: this.matching }, this);
+                entry.exclusions = [...this.exclusions, ...entry.exclusions];
+                // The first name found is used for the combined entry.
+                // Entries that can't be followed are kept separate so that they don't hide their siblings.
+                const found = (entry.error === undefined) ?
+                    result.find(existingEntry => (existingEntry.error === undefined) && existingEntry.matches(entry)) :
+                    undefined;
                 if (found) {
+                    // Keep track of the targets that must exist once some targets may be missing
+                    for (const item of [found, entry]) {
+                        const required = item.targetsMayBeMissing ? [...item.requiredTargets] : item.targets.map(url => url.href);
+                        required.forEach(href => found.requiredTargets.add(href));
+                    }
                     found.targetsMayBeMissing ||= entry.targetsMayBeMissing;
                     found.targets.push(...entry.targets);
+                    entry.visited.forEach(href => found.visited.add(href));
+                    found.junctionDepth = Math.max(found.junctionDepth, entry.junctionDepth);
+                    found.exclusions.push(...entry.exclusions.filter(exclusion => !found.exclusions.includes(exclusion)));
                 } else {
                     result.push(entry);
                 }
             }
         }
+
+        const policy = this.options.conflicts ?? "first";
+        if (policy !== "first") {
+            for (const entry of result) {
+                await resolveConflict(entry, policy);
+            }
+        }
         return result;
     }
 }
+
+/** A file that is hidden by a file with the same name in another target */
+export interface ShadowedFile {
+    /** The path of the file relative to the root of the tree, using "/" as a separator */
+    path: string;
+
+    /** The file that is used, or undefined if the conflict policy is "report" (see `conflict`) */
+    target: URL | undefined;
+
+    /** The files with the same name that are not used */
+    shadowed: URL[];
+
+    /** Set when the conflict policy is "report" */
+    conflict?: JunctionConflictError;
+}
+
+function entryName(entry: Entry): string {
+    return (entry.extension !== undefined) ? `${entry.name}.${entry.extension}` : entry.name;
+}
+
+/**
+ * Lists every file in a junction tree that has the same name as a file in another target,
+ * so that duplicate files can be found and removed.
+ * The files are compared by name only; use manifest.ts to compare their contents.
+ *
+ * @param root The root of the tree
+ */
+export function findShadowedFiles(root: Entry): AsyncIterable<ShadowedFile> {
+    async function* _findShadowedFiles(entry: Entry, path: string): AsyncGenerator<ShadowedFile> {
+        for (const child of await entry.children()) {
+            const childPath = path + entryName(child);
+            if (child.isFolder) {
+                yield* _findShadowedFiles(child, childPath + "/");
+            } else if (child.targets.length > 1) {
+                const shadowed = await child.shadowed();
+                if (shadowed.length > 0) {
+                    yield { path: childPath, target: child.target, shadowed, conflict: child.conflict };
+                }
+            }
+        }
+    }
+
+    return generable(_findShadowedFiles)(root, "");
+}
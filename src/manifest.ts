@@ -0,0 +1,278 @@
+// manifest.ts records the hash of every file under a folder or junction tree
+// so that the files can be checked later for changes (such as bit-rot on a media drive)
+// and so that duplicate files can be found.
+
+// Manifests use the same format as sha256sum and shasum:
+//      <hash><space><space><path>
+// The path is relative to the root folder, or to the root of the junction tree,
+// and uses "/" as a separator.
+
+// In a junction tree, one name can refer to several files (one from each target)
+// so the same path can appear more than once. The lines for a path are in the order of the targets.
+
+import { FilePath, globToRegExp, isFolderPath, readLines, toFileURL, walk, writeTextFile } from "./file.ts";
+import { DEFAULT_HASH_ALGORITHM, HashAlgorithm, hashFile } from "./hash.ts";
+import { Entry } from "./junction.ts";
+import { AnyIterable, generable } from "./utility.ts";
+
+/** A file and its hash */
+export interface ManifestEntry {
+    /** The path of the file relative to the root */
+    path: string;
+
+    /** The location of the file */
+    url: URL;
+
+    /** The hash of the file as lowercase hexadecimal */
+    hash: string;
+}
+
+/** A line from a manifest file */
+export type ManifestLine = Omit<ManifestEntry, "url">;
+
+export interface ManifestOptions {
+    /** The hash algorithm. The default is SHA-256. When verifying, the algorithm is determined by the manifest. */
+    algorithm?: HashAlgorithm;
+
+    /** Globs matched against the relative path. If provided, only matching files are included. */
+    include?: string[];
+
+    /** Globs matched against the relative path. Matching files are not included. */
+    exclude?: string[];
+
+    /** Called after each file is hashed */
+    onProgress?: (entry: ManifestEntry) => void;
+}
+
+/** A difference between a manifest and the files on disk */
+export interface ManifestDifference {
+    kind: "changed" | "missing" | "added";
+    path: string;
+
+    /** The location of the file (not available for missing files) */
+    url?: URL;
+
+    /** The hash from the manifest */
+    expected?: string;
+
+    /** The hash of the file on disk */
+    actual?: string;
+}
+
+const manifestLineRE = /^(?<hash>[0-9a-fA-F]+) [ *](?<path>.+)$/;
+
+const ALGORITHMS_BY_LENGTH: Record<number, HashAlgorithm> = {
+    64: "SHA-256",
+    40: "SHA-1",
+};
+
+function compareNames(a: string, b: string): number {
+    return a.localeCompare(b, "en", { numeric: true });
+}
+
+function entryName(entry: Entry): string {
+    return (entry.extension !== undefined) ? `${entry.name}.${entry.extension}` : entry.name;
+}
+
+/** Lists every file in a junction tree with its path, one item per target */
+async function* junctionFiles(entry: Entry, path: string): AsyncGenerator<[string, URL]> {
+    const children = (await entry.children()).sort((a, b) => compareNames(entryName(a), entryName(b)));
+    for (const child of children) {
+        const childPath = path + entryName(child);
+        if (child.isFolder) {
+            yield* junctionFiles(child, childPath + "/");
+        } else {
+            for (const target of child.targets) {
+                yield [childPath, target];
+            }
+        }
+    }
+}
+
+/** Lists every file under a folder with its path */
+async function* folderFiles(folder: URL): AsyncGenerator<[string, URL]> {
+    for await (const url of walk(folder, { sort: "name" })) {
+        if (!isFolderPath(url)) {
+            yield [decodeURIComponent(url.pathname.substring(folder.pathname.length)), url];
+        }
+    }
+}
+
+/**
+ * Hashes every file under a folder or junction tree.
+ * Files that are missing (such as optional junction targets) are skipped.
+ *
+ * @param root A folder or the root Entry of a junction tree
+ * @param options The hash algorithm and which files to include
+ */
+export function manifestEntries(root: FilePath | Entry, options?: ManifestOptions): AsyncIterable<ManifestEntry> {
+    const algorithm = options?.algorithm ?? DEFAULT_HASH_ALGORITHM;
+    const include = options?.include?.map(globToRegExp);
+    const exclude = options?.exclude?.map(globToRegExp) ?? [];
+
+    async function* _manifestEntries() {
+        const files = (root instanceof Entry) ? junctionFiles(root, "") : folderFiles(toFileURL(root));
+        for await (const [path, url] of files) {
+            if ((include && !include.some(re => re.test(path))) || exclude.some(re => re.test(path))) {
+                continue;
+            }
+
+            let hash: string;
+            try {
+                hash = await hashFile(url, algorithm);
+            } catch (e) {
+                if (e instanceof Deno.errors.NotFound) {
+                    continue;
+                }
+                throw e;
+            }
+
+            const entry = { path, url, hash };
+            options?.onProgress?.(entry);
+            yield entry;
+        }
+    }
+
+    return generable(_manifestEntries)();
+}
+
+/** Converts manifest entries to text */
+export function formatManifest(entries: ManifestLine[]): string {
+    return entries.map(entry => `${entry.hash}  ${entry.path}\n`).join("");
+}
+
+/** Converts a single line of a manifest. Throws if the line is not in the expected format. */
+function parseManifestLine(line: string, number: number): ManifestLine {
+    const match = manifestLineRE.exec(line);
+    if (!match?.groups) {
+        throw new Error(`Unexpected manifest line ${number}: '${line}'`);
+    }
+    return { hash: match.groups.hash.toLowerCase(), path: match.groups.path };
+}
+
+/** Converts text to manifest lines. Throws if a line is not in the expected format. */
+export function parseManifest(text: string): ManifestLine[] {
+    return text.split("\n").map((line, index) => [line, index + 1] as const)
+        .filter(([line]) => line !== "")
+        .map(([line, number]) => parseManifestLine(line, number));
+}
+
+/** Returns true if the entry is the manifest itself */
+function isManifest(entry: ManifestEntry, manifestURL: URL): boolean {
+    return entry.url.href === manifestURL.href;
+}
+
+/**
+ * Hashes every file under a folder or junction tree and writes the manifest atomically.
+ * Returns the entries that were written.
+ *
+ * @param manifestPath The location of the manifest (which may be inside the folder)
+ * @param root A folder or the root Entry of a junction tree
+ * @param options The hash algorithm and which files to include
+ */
+export async function writeManifest(manifestPath: FilePath, root: FilePath | Entry, options?: ManifestOptions): Promise<ManifestEntry[]> {
+    const manifestURL = toFileURL(manifestPath);
+    const entries: ManifestEntry[] = [];
+    for await (const entry of manifestEntries(root, options)) {
+        if (!isManifest(entry, manifestURL)) {
+            entries.push(entry);
+        }
+    }
+    await writeTextFile(manifestURL, formatManifest(entries), { atomic: true });
+    return entries;
+}
+
+/** Reads the lines of a manifest file (which can be any size) */
+export async function readManifest(manifestPath: FilePath): Promise<ManifestLine[]> {
+    const result: ManifestLine[] = [];
+    for await (const line of readLines(manifestPath)) {
+        if (line.text !== "") {
+            result.push(parseManifestLine(line.text, line.number));
+        }
+    }
+    return result;
+}
+
+/** Groups items by a key, keeping the order in which keys were first seen */
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+    const result = new Map<string, T[]>();
+    for (const item of items) {
+        const k = key(item);
+        const group = result.get(k);
+        if (group) {
+            group.push(item);
+        } else {
+            result.set(k, [item]);
+        }
+    }
+    return result;
+}
+
+/**
+ * Hashes the files under a folder or junction tree and compares them with a manifest.
+ * Returns the differences, which is an empty array if every file matches.
+ *
+ * The hash algorithm is determined from the length of the hashes in the manifest.
+ *
+ * @param manifestPath The location of the manifest
+ * @param root The folder or root Entry that the manifest describes
+ * @param options Which files to include
+ */
+export async function verifyManifest(manifestPath: FilePath, root: FilePath | Entry, options?: ManifestOptions): Promise<ManifestDifference[]> {
+    const manifestURL = toFileURL(manifestPath);
+    const expected = await readManifest(manifestURL);
+    const algorithm = (expected.length > 0) ? ALGORITHMS_BY_LENGTH[expected[0].hash.length] : undefined;
+    if ((expected.length > 0) && (algorithm === undefined)) {
+        throw new Error(`Unknown hash algorithm in manifest ${manifestURL.href}`);
+    }
+
+    const actual: ManifestEntry[] = [];
+    for await (const entry of manifestEntries(root, { ...options, algorithm: algorithm ?? options?.algorithm })) {
+        if (!isManifest(entry, manifestURL)) {
+            actual.push(entry);
+        }
+    }
+
+    const expectedByPath = groupBy(expected, entry => entry.path);
+    const actualByPath = groupBy(actual, entry => entry.path);
+
+    const result: ManifestDifference[] = [];
+    for (const [path, lines] of expectedByPath) {
+        const entries = actualByPath.get(path) ?? [];
+        lines.forEach((line, index) => {
+            const entry = entries[index];
+            if (entry === undefined) {
+                result.push({ kind: "missing", path, expected: line.hash });
+            } else if (entry.hash !== line.hash) {
+                result.push({ kind: "changed", path, url: entry.url, expected: line.hash, actual: entry.hash });
+            }
+        });
+        for (const entry of entries.slice(lines.length)) {
+            result.push({ kind: "added", path, url: entry.url, actual: entry.hash });
+        }
+    }
+
+    for (const [path, entries] of actualByPath) {
+        if (!expectedByPath.has(path)) {
+            for (const entry of entries) {
+                result.push({ kind: "added", path, url: entry.url, actual: entry.hash });
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Groups files that have the same contents.
+ * Only groups with more than one file are returned.
+ *
+ * @param entries Manifest entries (from manifestEntries or writeManifest)
+ */
+export async function findDuplicates(entries: AnyIterable<ManifestEntry>): Promise<ManifestEntry[][]> {
+    const all: ManifestEntry[] = [];
+    for await (const entry of entries) {
+        all.push(entry);
+    }
+    return [...groupBy(all, entry => entry.hash).values()].filter(group => group.length > 1);
+}
@@ -0,0 +1,101 @@
+import { MemoryFileSystem } from "./file-memory.ts";
+import { remove, setFileSystem, writeTextFile } from "./file.ts";
+import { createHasher, hashFile } from "./hash.ts";
+import { loadEntry } from "./junction.ts";
+import { findDuplicates, readManifest, verifyManifest, writeManifest } from "./manifest.ts";
+import { dataToHex } from "./utility.ts";
+
+const tree = {
+    "Drive1/": {
+        "Season 1/": {
+            "Rose.mp4": "Rose",
+            "Rose.txt": "Rose Tyler meets the Doctor.",
+        },
+    },
+    "Drive2/": {
+        "Season 1/": {
+            "Rose.mp4": "Rose",
+            "Dalek.mp4": "Dalek",
+        },
+    },
+    "TV.junction": "REQUIRED\nfile:///Drive1/\nfile:///Drive2/",
+};
+
+Deno.test("hash", async function () {
+    // Larger than the 4 MB chunks read by hashFile, so it is hashed incrementally
+    const large = new Uint8Array(5 * 1024 * 1024 + 3).fill("a".charCodeAt(0));
+    const previous = setFileSystem(new MemoryFileSystem({ "abc.txt": "abc", "empty.txt": "", "large.bin": large }));
+    try {
+        const sha256 = await hashFile("/abc.txt");
+        if (sha256 !== "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad") {
+            throw `FAIL: SHA-256: ${sha256}`;
+        }
+
+        const sha1 = await hashFile("/empty.txt", "SHA-1");
+        if (sha1 !== "da39a3ee5e6b4b0d3255bfef95601890afd80709") {
+            throw `FAIL: SHA-1: ${sha1}`;
+        }
+
+        const largeSHA256 = await hashFile("/large.bin");
+        const largeSHA1 = await hashFile("/large.bin", "SHA-1");
+        if ((largeSHA256 !== "1d31b529ae70d74a20efc4df269f362578e974655e2f42c9a57795e035c7b8cf") || (largeSHA1 !== "d539c22387330a4d9b0920f9e3422ee2ea7eee36")) {
+            throw `FAIL: large file: ${largeSHA256} ${largeSHA1}`;
+        }
+    } finally {
+        setFileSystem(previous);
+    }
+
+    // The incremental implementation matches WebCrypto for data split across blocks
+    const data = crypto.getRandomValues(new Uint8Array(1000));
+    for (const algorithm of ["SHA-256", "SHA-1"] as const) {
+        const hasher = createHasher(algorithm);
+        hasher.update(data.subarray(0, 63));
+        hasher.update(data.subarray(63, 200));
+        hasher.update(data.subarray(200));
+        const expected = dataToHex(new Uint8Array(await crypto.subtle.digest(algorithm, data)));
+        if (dataToHex(hasher.digest()) !== expected) {
+            throw `FAIL: incremental ${algorithm}`;
+        }
+    }
+});
+
+Deno.test("manifest", async function () {
+    const previous = setFileSystem(new MemoryFileSystem(tree));
+    try {
+        const root = await loadEntry("/TV.junction");
+        const entries = await writeManifest("/TV.sha256", root);
+        const lines = (await readManifest("/TV.sha256")).map(line => line.path);
+        const expected = ["Season 1/Dalek.mp4", "Season 1/Rose.mp4", "Season 1/Rose.mp4", "Season 1/Rose.txt"];
+        if (lines.join("|") !== expected.join("|")) {
+            throw `FAIL: manifest: ${lines}`;
+        }
+
+        const duplicates = await findDuplicates(entries);
+        const urls = duplicates.map(group => group.map(entry => entry.url.pathname).join("|"));
+        if (urls.join() !== "/Drive1/Season%201/Rose.mp4|/Drive2/Season%201/Rose.mp4") {
+            throw `FAIL: duplicates: ${urls}`;
+        }
+
+        if ((await verifyManifest("/TV.sha256", root)).length !== 0) {
+            throw `FAIL: verify unchanged`;
+        }
+
+        await writeTextFile("/Drive2/Season 1/Rose.mp4", "Rot");
+        await remove("/Drive1/Season 1/Rose.txt");
+        await writeTextFile("/Drive1/Season 1/Boom Town.mp4", "Boom");
+
+        const differences = (await verifyManifest("/TV.sha256", root)).map(difference => `${difference.kind} ${difference.path}`);
+        if (differences.join("|") !== "changed Season 1/Rose.mp4|missing Season 1/Rose.txt|added Season 1/Boom Town.mp4") {
+            throw `FAIL: verify: ${differences}`;
+        }
+
+        // A manifest inside the folder that it describes does not list itself
+        await writeManifest("/Drive2/manifest.sha1", "/Drive2/", { algorithm: "SHA-1" });
+        const folder = await verifyManifest("/Drive2/manifest.sha1", "/Drive2/");
+        if (folder.length !== 0) {
+            throw `FAIL: verify folder: ${JSON.stringify(folder)}`;
+        }
+    } finally {
+        setFileSystem(previous);
+    }
+});
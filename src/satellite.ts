@@ -1,4 +1,4 @@
-import { FileName, MIME_TYPES } from "./file.ts";
+import { FileName, MIME_TYPES, sniffMimeType } from "./file.ts";
 // satellite.ts provides a view over a file system that reveals associations between files.
 // Some files are Primaries and some are Satellites.
 // A Satellite's file name starts with the name of a Primary
@@ -9,8 +9,9 @@ import { FileName, MIME_TYPES } from "./file.ts";
 // One of these tags can indicate the primary language of the satellite.
 
 import type { Entry } from "./junction.ts";
+import { nameKey } from "./junction.ts";
 import { generable } from "./utility.ts";
-import { readTextFile } from "./file.ts";
+import { readTextFile, TextDecodeOptions } from "./file.ts";
 
 function first<Item, Result>(iterable: Iterable<Item>, testAndMap: (item: Item) => (Result | undefined)): Result | undefined {
     let result: Result | undefined;
@@ -22,9 +23,39 @@ function first<Item, Result>(iterable: Iterable<Item>, testAndMap: (item: Item)
     return result;
 }
 
+/** Extensions that are used for more than one type of file */
+const AMBIGUOUS_EXTENSIONS = ["ts"];
+
+/**
+ * Returns the MIME type of an entry from its extension, falling back to the contents of the target file
+ * if the extension is missing, unknown, or ambiguous.
+ */
+export async function detectMimetype(entry: Entry): Promise<string | undefined> {
+    const extension = entry.extension?.toLowerCase();
+    const mimetype = (extension !== undefined) ? MIME_TYPES[extension] : undefined;
+    if (entry.isFolder || ((mimetype !== undefined) && !AMBIGUOUS_EXTENSIONS.includes(extension!))) {
+        return mimetype;
+    }
+
+    const target = entry.target;
+    if (target === undefined) {
+        return mimetype;
+    }
+
+    try {
+        return (await sniffMimeType(target)) || mimetype;
+    } catch (e) {
+        if (e instanceof Deno.errors.NotFound) {
+            return mimetype;
+        }
+        throw e;
+    }
+}
+
 function hasPrefix(entry: Entry, prefix: string) {
+    const name = nameKey(entry.name, entry.matching);
+    prefix = nameKey(prefix, entry.matching);
     const length = prefix.length;
-    const name = entry.name;
     return name.startsWith(prefix) && ((name.length === length) || (name[length] === "."));
 }
 
@@ -38,9 +69,10 @@ export class Satellite<T extends Primary> {
         this.primary = primary;
         this.entry = entry;
 
+        // Count periods rather than characters because matching can change the length of the name
         const name = hasPrefix(entry, this.primary.name) ? this.primary.name : FOLDER_NAME;
-        const remainder = this.entry.name.substring(name.length);
-        this.tags = remainder.split(".").filter(x => x !== "");
+        const parts = this.entry.name.split(".");
+        this.tags = parts.slice(name.split(".").length).filter(x => x !== "");
     }
 
     get name(): string {
@@ -55,17 +87,30 @@ export class Satellite<T extends Primary> {
         return (this.extension !== undefined) ? MIME_TYPES[this.extension] : undefined;
     }
 
-    get target(): URL {
-        return this.entry.targets[0];
+    /** The MIME type from the extension or, if that isn't enough, from the contents of the file */
+    async detectMimetype(): Promise<string | undefined> {
+        return await detectMimetype(this.entry);
+    }
+
+    /** The file used for this item (see Entry.target for how duplicates are handled) */
+    get target(): URL | undefined {
+        return this.entry.target;
     }
 
     get isFolder(): boolean {
         return this.entry.isFolder;
     }
 
-    /** Reads the file contents as text (if the file is small) */
-    async text(): Promise<string> {
-        return await readTextFile(this.target);
+    /**
+     * Reads the file contents as text (if the file is small).
+     * The encoding is detected from the data (UTF-8, UTF-16, or windows-1252) unless an `encoding` option is provided.
+     */
+    async text(options?: TextDecodeOptions): Promise<string> {
+        const target = this.target;
+        if (target === undefined) {
+            throw this.entry.conflict;
+        }
+        return await readTextFile(target, options);
     }
 
     /** The primary language of this satellite resource */
@@ -120,9 +165,15 @@ export class Primary {
     get mimetype(): string | undefined {
         return (this.extension !== undefined) ? MIME_TYPES[this.extension] : undefined;
     }
+
+    /** The MIME type from the extension or, if that isn't enough, from the contents of the file */
+    async detectMimetype(): Promise<string | undefined> {
+        return await detectMimetype(this.entry);
+    }
     
-    get target(): URL {
-        return this.entry.targets[0];
+    /** The file used for this item (see Entry.target for how duplicates are handled) */
+    get target(): URL | undefined {
+        return this.entry.target;
     }
 
     get isFolder(): boolean {
@@ -150,9 +201,7 @@ export class Primary {
         // deno-lint-ignore no-this-alias
         let current = this;
         for (const piece of path) {
-            const next = (await current.children()).find(child =>
-                (child.name === piece.name) && (child.extension === piece.extension)
-            );
+            const next = (await current.children()).find(child => child.entry.matches(piece));
             if (next === undefined) {
                 return undefined;
             }
@@ -1,4 +1,4 @@
-import { execute, exists, FilePath, makeDirectory, rename, toFilePath, toFileURL, writeTextFile } from "./file.ts";
+import { executePipeline, exists, FilePath, makeDirectory, replaceFile, toFilePath, toFileURL, writeTextFile } from "./file.ts";
 
 export type Certificate = string & { kind_: "Certificate" };
 export type PublicKeyHash = string & { kind_: "PublicKeyHash" };
@@ -31,8 +31,14 @@ export function toProtocol(url: URL): Protocol {
  * Get a certificate, read the subject from a certificate, get a pin hash from a certificate
  */
 export class CertificateUtility {
-    exec(pipeline: string[]): Promise<string> {
-        return execute("bash", "-c", pipeline.join(" | "));
+    /**
+     * Runs the commands as a pipeline without a shell and returns the output.
+     * Each command is the application followed by its arguments.
+     * The pipeline fails if any of the commands fails, so a failure early in the pipeline
+     * isn't hidden by later commands that succeed with empty input.
+     */
+    exec(pipeline: string[][]): Promise<string> {
+        return executePipeline(pipeline, { pipefail: true });
     }
 
     /**
@@ -42,11 +48,11 @@ export class CertificateUtility {
     async getSubject(certificateFile: FilePath): Promise<Subject> {
         const path = toFilePath(certificateFile);
         const result = await this.exec([
-            `openssl x509 -in  "${path}" -noout -subject -nameopt RFC2253`
+            ["openssl", "x509", "-in", path, "-noout", "-subject", "-nameopt", "RFC2253"]
         ]);
 
-        const prefix = "subject= ";
-        let subject = result.startsWith(prefix) ? result.substring(prefix.length) : result;
+        // Older versions of openssl put a space after the equals sign
+        let subject = result.replace(/^subject=\s*/, "");
 
         // TODO - can't parse like this!!!
         const commaPlaceholder = "!$comma$!";
@@ -60,10 +66,10 @@ export class CertificateUtility {
     /** Calculates a hash from the specified certificate to use for pinning */
     getPublicKeyHash(certificateFile: FilePath): Promise<PublicKeyHash> {
         const path = toFilePath(certificateFile);
-        const PUBLIC_KEY_READ = `openssl x509 -pubkey -noout -in "${path}"`;
-        const PUBLIC_KEY_TO_DER = `openssl pkey -pubin -outform der`;
-        const TO_SHA256 = `openssl dgst -sha256 -binary`;
-        const TO_BASE64 = `openssl enc -base64`
+        const PUBLIC_KEY_READ = ["openssl", "x509", "-pubkey", "-noout", "-in", path];
+        const PUBLIC_KEY_TO_DER = ["openssl", "pkey", "-pubin", "-outform", "der"];
+        const TO_SHA256 = ["openssl", "dgst", "-sha256", "-binary"];
+        const TO_BASE64 = ["openssl", "enc", "-base64"];
 
         const commands = [
             PUBLIC_KEY_READ,
@@ -77,9 +83,10 @@ export class CertificateUtility {
 
     /** Returns the certificate from the server specified in the URL - no validation */
     fetchCertificate(url: URL): Promise<Certificate> {
-        const DOWNLOAD_CERTIFICATES = `openssl s_client -showcerts -servername ${url.hostname} -connect ${url.hostname}:${toPort(url)} </dev/null 2>/dev/null`;
+        // The pipeline provides no input, so s_client disconnects as soon as it has the certificates
+        const DOWNLOAD_CERTIFICATES = ["openssl", "s_client", "-showcerts", "-servername", url.hostname, "-connect", `${url.hostname}:${toPort(url)}`];
 
-        const FIRST_CERTIFICATE_TO_PEM = `openssl x509 -outform PEM`;
+        const FIRST_CERTIFICATE_TO_PEM = ["openssl", "x509", "-outform", "PEM"];
 
         const commands = [
             DOWNLOAD_CERTIFICATES,
@@ -164,11 +171,10 @@ export class CertificateLibrary {
         if (!(await exists(file))) {
             const fetchableURL = await this.toFetchableURL(url);
             const certificate = await this.utility.fetchCertificate(fetchableURL);
-            const tempFile = new URL(`${name}.pem.download`, this.folder);
-            await writeTextFile(tempFile, certificate);
-            await this.verify(tempFile, name);
-            // TODO - clean up temp file on failure
-            await rename(tempFile, file);
+            await replaceFile(file, async (tempFile) => {
+                await writeTextFile(tempFile, certificate);
+                await this.verify(tempFile, name);
+            });
         }
         return file;
     }
@@ -10,6 +10,9 @@ import { iterable } from "./utility.ts";
 export function srt2vtt(text: string): string {
     const cueTiming = /(\d{1,2}:\d{1,2}:\d{1,2})(?:,)(\d{1,3} --> \d{1,2}:\d{1,2}:\d{1,2})(?:,)(\d{1,3})/g;
 
+    // Remove any byte order mark left by the decoder
+    text = text.replace(/^\uFEFF/, "");
+
     // Replace comma timings with period timings
     let vtt = text.replace(cueTiming, "$1.$2.$3");
 